@@ -45,6 +45,7 @@ async function main() {
   runCommand("npm run build");
   runCommand("npm run build:zenobia");
   runCommand("npm run build:modal");
+  runCommand("npm run build:element");
 
   // Step 4: Push to current repository
   console.log("\n📤 Pushing to current repository...");
@@ -107,6 +108,16 @@ async function main() {
     await fs.copyFile(modalSource, modalDest);
     await fs.copyFile(modalSource, modalLatestDest);
 
+    // Copy custom element build
+    const elementSource = path.join(
+      __dirname,
+      "../dist/zenobia-element/zenobia-pay-element.js"
+    );
+    const elementDest = path.join(versionDir, "zenobia-pay-element.js");
+    const elementLatestDest = path.join(latestDir, "zenobia-pay-element.js");
+    await fs.copyFile(elementSource, elementDest);
+    await fs.copyFile(elementSource, elementLatestDest);
+
     // Commit the landing page changes
     console.log("💾 Committing landing page changes...");
     runCommand("git add .");
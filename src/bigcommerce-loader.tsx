@@ -1,3 +1,4 @@
+import { createMemo, createSignal } from "solid-js";
 import { render } from "solid-js/web";
 import {
   QrPosition,
@@ -7,20 +8,260 @@ import type {
   CreateTransferRequestResponse,
   TransferStatus,
 } from "./components/ZenobiaPaymentButton";
+import {
+  ZenobiaLogger,
+  createLogger,
+  resolveLogger,
+} from "./components/ZenobiaLogger";
+import { toMinorUnits } from "./components/ZenobiaCurrency";
+import type { ZenobiaTheme } from "./components/ZenobiaTheme";
+import { toTheme } from "./components/ZenobiaAttributes";
+import { Translator, createTranslator } from "./components/ZenobiaMessages";
+import {
+  ZenobiaValidationError,
+  withHint,
+} from "./components/ZenobiaValidation";
+
+const DEFAULT_CONFIRMATION_URL =
+  "https://order-confirmation-9bg.pages.dev/checkout/order-confirmation?signature={signature}&transferRequestId={transferRequestId}&returnUrl={returnUrl}";
 
 type InitOpts = {
-  amount: number;
+  amount: number; // Fallback in minor units when the checkout has no total
   target: string | HTMLElement;
   metadata: Record<string, any>;
   url: string;
+  label?: string; // Name of the payment option in the checkout's list
+  position?: "first" | "last" | number; // Where the option goes in the list (default "last")
+  isTest?: boolean;
+  theme?: ZenobiaTheme;
   buttonText?: string;
   buttonClass?: string;
   qrCodeSize?: number;
-  onSuccess?: (res: CreateTransferRequestResponse) => void;
+  currency?: string; // Fallback when the checkout has no currency
+  locale?: string;
+  onSuccess?: (res: CreateTransferRequestResponse) => void; // Runs before completion
+  completion?: "redirect" | "native"; // What happens after payment (default "redirect")
+  confirmationUrl?: string; // Redirect template; {transferRequestId}, {signature}, {checkoutId} and {returnUrl} are URL-encoded
+  onComplete?: (
+    transferRequest: CreateTransferRequestResponse,
+    checkout: any
+  ) => void | Promise<void>; // Replaces the redirect; the merchant finishes the order
   onError?: (err: Error) => void;
   onStatusChange?: (status: TransferStatus) => void;
+  transformMetadata?: (
+    metadata: Record<string, any>,
+    checkout: any
+  ) => Record<string, any>; // Filter or change the metadata before it is sent
+  logger?: ZenobiaLogger;
+  debug?: boolean;
 };
 
+interface CheckoutTotal {
+  amount: number; // Minor units
+  currency?: string;
+}
+
+// What is left to pay, so store credit and gift certificates already
+// applied are not charged twice
+function readCheckoutTotal(checkout: any, opts: InitOpts): CheckoutTotal {
+  const currency = checkout?.cart?.currency?.code ?? opts.currency;
+  const total = checkout?.outstandingBalance ?? checkout?.grandTotal;
+  return {
+    amount:
+      typeof total === "number" ? toMinorUnits(total, currency) : opts.amount,
+    currency,
+  };
+}
+
+interface LineItem {
+  name: string;
+  amount: number; // Minor units; negative for discounts
+  quantity?: number;
+  sku?: string;
+}
+
+// Itemized like the receipt: line items, then shipping, taxes and discounts
+function readLineItems(
+  checkout: any,
+  currency: string | undefined,
+  t: Translator["t"]
+): LineItem[] {
+  const minor = (value: number) => toMinorUnits(value, currency);
+  const lineItems = checkout?.cart?.lineItems ?? {};
+  const items: LineItem[] = [
+    ...(lineItems.physicalItems ?? []),
+    ...(lineItems.digitalItems ?? []),
+  ].map((item: any) => ({
+    name: item.name,
+    amount: minor(item.extendedSalePrice),
+    quantity: item.quantity,
+    sku: item.sku || undefined,
+  }));
+
+  for (const certificate of lineItems.giftCertificates ?? []) {
+    items.push({ name: certificate.name, amount: minor(certificate.amount) });
+  }
+  if (checkout?.shippingCostTotal) {
+    items.push({
+      name: t("statementShipping"),
+      amount: minor(checkout.shippingCostTotal),
+    });
+  }
+  for (const tax of checkout?.taxes ?? []) {
+    if (tax.amount) items.push({ name: tax.name, amount: minor(tax.amount) });
+  }
+  for (const coupon of checkout?.coupons ?? []) {
+    items.push({
+      name: t("statementCoupon", { code: coupon.code }),
+      amount: -minor(coupon.discountedAmount),
+    });
+  }
+  if (checkout?.cart?.discountAmount) {
+    items.push({
+      name: t("statementDiscount"),
+      amount: -minor(checkout.cart.discountAmount),
+    });
+  }
+  return items;
+}
+
+// Only the fields needed on a statement, without BigCommerce ids
+function readAddress(address: any) {
+  if (!address) return undefined;
+  return {
+    firstName: address.firstName,
+    lastName: address.lastName,
+    company: address.company || undefined,
+    address1: address.address1,
+    address2: address.address2 || undefined,
+    city: address.city,
+    stateOrProvince: address.stateOrProvinceCode || address.stateOrProvince,
+    postalCode: address.postalCode,
+    countryCode: address.countryCode,
+    phone: address.phone || undefined,
+  };
+}
+
+function readCheckoutMetadata(
+  checkout: any,
+  opts: InitOpts,
+  translator: Translator,
+  logger: ZenobiaLogger
+): Record<string, any> {
+  const { t } = translator;
+  const { amount, currency } = readCheckoutTotal(checkout, opts);
+  const required = {
+    ...opts.metadata,
+    amount,
+    currency,
+    checkoutId: checkout?.id,
+    // Same single entry as every other integration; the breakdown is in
+    // lineItems
+    statementItems: { name: t("statementPayment"), amount },
+  };
+  const metadata = {
+    ...required,
+    customerEmail: checkout?.billingAddress?.email,
+    lineItems: readLineItems(checkout, currency, t),
+    shippingCost: toMinorUnits(checkout?.shippingCostTotal ?? 0, currency),
+    taxTotal: toMinorUnits(checkout?.taxTotal ?? 0, currency),
+    discountTotal: toMinorUnits(
+      (checkout?.coupons ?? []).reduce(
+        (sum: number, coupon: any) => sum + (coupon.discountedAmount ?? 0),
+        checkout?.cart?.discountAmount ?? 0
+      ),
+      currency
+    ),
+    billingAddress: readAddress(checkout?.billingAddress),
+    shippingAddress: readAddress(checkout?.consignments?.[0]?.shippingAddress),
+  };
+  if (!opts.transformMetadata) return metadata;
+
+  // Runs while rendering the button, so it must not throw. Without the
+  // merchant's filtering, only the fields needed for the transfer are sent.
+  try {
+    return opts.transformMetadata(metadata, checkout);
+  } catch (error) {
+    logger.error("transformMetadata failed", error);
+    opts.onError?.(error as Error);
+    return required;
+  }
+}
+
+// Fill {name} placeholders with URL-encoded values; unknown names stay as is
+function fillUrlTemplate(
+  template: string,
+  values: Record<string, string | undefined>
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? encodeURIComponent(values[name] ?? "") : match
+  );
+}
+
+// BigCommerce's confirmation page only makes sense once an order exists:
+// either finalizing succeeds here, or the server already placed the order
+async function confirmOrder(
+  service: any,
+  logger: ZenobiaLogger
+): Promise<boolean> {
+  try {
+    await service.finalizeOrderIfNeeded();
+    return true;
+  } catch (error) {
+    // Also rejects when there is nothing to finalize
+    logger.debug("Order not finalized here", error);
+  }
+
+  const state = await service.loadCheckout();
+  const orderId = state.data.getCheckout()?.orderId;
+  if (!orderId) return false;
+  await service.loadOrder(orderId);
+  return true;
+}
+
+/**
+ * Finish the checkout once the transfer is paid: the merchant's callback,
+ * BigCommerce's own confirmation page, or the confirmation URL template.
+ * A native completion that fails falls back to the template, since the
+ * shopper has already paid.
+ */
+async function completeCheckout(
+  service: any,
+  checkout: any,
+  transferRequest: CreateTransferRequestResponse,
+  opts: InitOpts,
+  logger: ZenobiaLogger
+) {
+  if (opts.onComplete) {
+    await opts.onComplete(transferRequest, checkout);
+    return;
+  }
+
+  if (opts.completion === "native") {
+    try {
+      const link = service.getState().data.getConfig()
+        ?.links?.orderConfirmationLink;
+      if (!link) throw new Error("Checkout has no order confirmation link");
+      if (!(await confirmOrder(service, logger))) {
+        throw new Error("No order was placed for this checkout");
+      }
+      window.location.assign(link);
+      return;
+    } catch (error) {
+      logger.warn("Native order confirmation failed, redirecting", error);
+    }
+  }
+
+  window.location.assign(
+    fillUrlTemplate(opts.confirmationUrl ?? DEFAULT_CONFIRMATION_URL, {
+      transferRequestId: transferRequest.transferRequestId,
+      signature: transferRequest.signature,
+      checkoutId: checkout?.id,
+      returnUrl: window.location.origin,
+    })
+  );
+}
+
 function loadBigCommerceSDK(): Promise<any> {
   return new Promise((resolve, reject) => {
     const script = document.createElement("script");
@@ -40,164 +281,379 @@ function loadBigCommerceSDK(): Promise<any> {
   });
 }
 
-function waitForCheckoutStep(): Promise<void> {
-  return new Promise((resolve) => {
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        const target = mutation.target as HTMLElement;
-        if (
-          target.classList.contains("checkout-step--payment") &&
-          target.querySelector(".checkout-view-content")
-        ) {
-          observer.disconnect();
-          resolve();
-          return;
-        }
-      }
-    });
+const PAYMENT_LIST_SELECTOR =
+  ".form-checklist.optimizedCheckout-form-checklist";
+const FORM_ACTIONS_SELECTOR = ".form-actions";
+const OPTION_ID = "radio-zenobiapay";
+const BUTTON_CONTAINER_CLASS = "zenobia-pay-button-container";
+const DEFAULT_LABEL = "Pay with your phone with Zenobia Pay";
 
-    observer.observe(document.body, {
-      childList: true,
-      subtree: true,
-      attributes: true,
-      attributeFilter: ["class"],
-    });
-  });
+type BigCommerceHandle = {
+  destroy: () => void; // Remove the option and button, restore the checkout
+};
+
+function createPaymentOption(label: string): HTMLLIElement {
+  const option = document.createElement("li");
+  option.className =
+    "form-checklist-item optimizedCheckout-form-checklist-item";
+  option.innerHTML = `
+    <div class="form-checklist-header">
+      <div class="form-field">
+        <input id="${OPTION_ID}" type="radio" class="form-checklist-checkbox optimizedCheckout-form-checklist-checkbox" name="paymentProviderRadio" value="zenobiapay">
+        <label for="${OPTION_ID}" class="form-label optimizedCheckout-form-label">
+          <div class="paymentProviderHeader-container">
+            <div class="paymentProviderHeader-nameContainer" data-test="payment-method-zenobiapay">
+              <div aria-level="6" class="paymentProviderHeader-name" data-test="payment-method-name" role="heading"></div>
+            </div>
+          </div>
+        </label>
+      </div>
+    </div>
+  `;
+  // Set as text so a configured label cannot inject markup
+  option.querySelector('[data-test="payment-method-name"]')!.textContent =
+    label;
+  return option;
 }
 
-async function initZenobiaPayBigcommerce(opts: InitOpts) {
-  try {
-    // Wait for the checkout step to be ready
-    await waitForCheckoutStep();
+async function initZenobiaPayBigcommerce(
+  opts: InitOpts
+): Promise<BigCommerceHandle | undefined> {
+  const logger = resolveLogger(opts);
 
+  try {
     // Load BigCommerce SDK
     const module = await loadBigCommerceSDK();
     const service = module.createCheckoutService();
     await service.loadCheckout();
 
-    const checkout = service.getState().data.getCheckout();
-    console.log("checkoutId:", checkout?.id);
-    console.log("email:", checkout?.billingAddress?.email);
-    console.log("items:", checkout);
+    const [checkout, setCheckout] = createSignal<any>(
+      service.getState().data.getCheckout()
+    );
+    const total = () => readCheckoutTotal(checkout(), opts);
+    const translator = createTranslator(opts.locale);
+    logger.debug("Checkout loaded", checkout());
 
-    // Add Zenobia Pay to payment methods list
-    const paymentMethodsList = document.querySelector(
-      ".form-checklist.optimizedCheckout-form-checklist"
+    // Coupons, shipping, tax and address changes update the mounted button
+    const unsubscribe = service.subscribe(
+      (state: any) => {
+        setCheckout(state.data.getCheckout());
+        logger.debug("Checkout updated", total());
+      },
+      (state: any) => state.data.getCheckout()
     );
-    if (paymentMethodsList) {
-      const zenobiaPayOption = document.createElement("li");
-      zenobiaPayOption.className =
-        "form-checklist-item optimizedCheckout-form-checklist-item";
-      zenobiaPayOption.innerHTML = `
-        <div class="form-checklist-header">
-          <div class="form-field">
-            <input id="radio-zenobiapay" type="radio" class="form-checklist-checkbox optimizedCheckout-form-checklist-checkbox" name="paymentProviderRadio" value="zenobiapay">
-            <label for="radio-zenobiapay" class="form-label optimizedCheckout-form-label">
-              <div class="paymentProviderHeader-container">
-                <div class="paymentProviderHeader-nameContainer" data-test="payment-method-zenobiapay">
-                  <div aria-level="6" class="paymentProviderHeader-name" data-test="payment-method-name" role="heading">Pay with your phone with Zenobia Pay</div>
-                </div>
-              </div>
-            </label>
-          </div>
-        </div>
-      `;
-      paymentMethodsList.appendChild(zenobiaPayOption);
 
-      // Add event listener to handle payment method selection
-      const radioButtons = paymentMethodsList.querySelectorAll(
-        'input[name="paymentProviderRadio"]'
-      );
-      radioButtons.forEach((radio) => {
-        radio.addEventListener("change", (e) => {
-          const target = e.target as HTMLInputElement;
-          const formActions = document.querySelector(".form-actions");
-          if (!formActions) return;
-
-          if (target.value === "zenobiapay") {
-            // Hide all form actions except Zenobia Pay button
-            const allFormActions = formActions.querySelectorAll(
-              "*:not(.zenobia-pay-button-container)"
-            );
-            allFormActions.forEach((element) => {
-              (element as HTMLElement).style.display = "none";
-            });
-
-            // Show Zenobia Pay button when selected
-            const existingButton = formActions.querySelector(
-              ".zenobia-pay-button-container"
-            );
-            if (!existingButton) {
-              const buttonContainer = document.createElement("div");
-              buttonContainer.className = "zenobia-pay-button-container";
-              formActions.insertBefore(buttonContainer, formActions.firstChild);
-
-              // Add checkout data to metadata
-              const enhancedMetadata = {
-                ...opts.metadata,
-                checkoutId: checkout?.id,
-                customerEmail: checkout?.billingAddress?.email,
-              };
-
-              render(
-                () => (
-                  <ZenobiaPaymentButton
-                    url={opts.url}
-                    amount={opts.amount}
-                    metadata={enhancedMetadata}
-                    buttonText={opts.buttonText}
-                    buttonClass={opts.buttonClass}
-                    qrCodeSize={opts.qrCodeSize}
-                    onSuccess={(transferRequest, status) => {
-                      // Handle success and redirect
-                      const signature = transferRequest.signature;
-                      const transferRequestId =
-                        transferRequest.transferRequestId;
-                      window.location.href = `https://order-confirmation-9bg.pages.dev/checkout/order-confirmation?signature=${signature}&transferRequestId=${transferRequestId}&returnUrl=${window.location.hostname}`;
-                    }}
-                    onError={opts.onError}
-                    onStatusChange={opts.onStatusChange}
-                    qrPosition={QrPosition.POPUP}
-                  />
-                ),
-                buttonContainer
-              );
-            }
-          } else {
-            // Show all form actions again
-            const allFormActions = formActions.querySelectorAll("*");
-            allFormActions.forEach((element) => {
-              (element as HTMLElement).style.display = "";
-            });
-
-            // Remove Zenobia Pay button when another payment method is selected
-            const existingButton = document.querySelector(
-              ".zenobia-pay-button-container"
-            );
-            if (existingButton) {
-              existingButton.remove();
-            }
-          }
-        });
+    let mounted: { container: HTMLElement; dispose: () => void } | null = null;
+    // Form actions we hid, with their original inline display
+    const hidden = new Map<HTMLElement, string>();
+
+    const restoreFormActions = () => {
+      hidden.forEach((display, element) => {
+        element.style.display = display;
       });
-    }
+      hidden.clear();
+    };
 
-    // Initially hide the Zenobia Pay button container
-    const formActions = document.querySelector(".form-actions");
-    if (formActions) {
-      const zenobiaPayContainer = formActions.querySelector(
-        ".zenobia-pay-button-container"
+    const unmountButton = () => {
+      if (!mounted) return;
+      mounted.dispose();
+      mounted.container.remove();
+      mounted = null;
+    };
+
+    const mountButton = (formActions: HTMLElement) => {
+      const container = document.createElement("div");
+      container.className = BUTTON_CONTAINER_CLASS;
+      formActions.insertBefore(container, formActions.firstChild);
+
+      const dispose = render(() => {
+        // Props are read more than once; build the metadata (and run
+        // transformMetadata) once per checkout change
+        const metadata = createMemo(() =>
+          readCheckoutMetadata(checkout(), opts, translator, logger)
+        );
+        return (
+          <ZenobiaPaymentButton
+            url={opts.url}
+            amount={total().amount}
+            metadata={metadata()}
+            buttonText={opts.buttonText}
+            buttonClass={opts.buttonClass}
+            qrCodeSize={opts.qrCodeSize}
+            currency={total().currency}
+            locale={opts.locale}
+            logger={opts.logger}
+            debug={opts.debug}
+            isTest={opts.isTest}
+            theme={opts.theme}
+            onSuccess={(transferRequest) => {
+              opts.onSuccess?.(transferRequest);
+              completeCheckout(
+                service,
+                checkout(),
+                transferRequest,
+                opts,
+                logger
+              ).catch((error) => {
+                logger.error("Error completing checkout", error);
+                opts.onError?.(error as Error);
+              });
+            }}
+            onError={opts.onError}
+            onStatusChange={opts.onStatusChange}
+            qrPosition={QrPosition.POPUP}
+          />
+        );
+      }, container);
+      mounted = { container, dispose };
+    };
+
+    // Bring the page in line with the selected payment method. Runs on
+    // every checkout re-render, so it must be safe to repeat.
+    const sync = () => {
+      const list = document.querySelector(PAYMENT_LIST_SELECTOR);
+      if (list && !list.querySelector(`#${OPTION_ID}`)) {
+        const before =
+          opts.position === "first"
+            ? list.firstElementChild
+            : typeof opts.position === "number"
+            ? list.children[opts.position] ?? null
+            : null;
+        list.insertBefore(
+          createPaymentOption(opts.label ?? DEFAULT_LABEL),
+          before
+        );
+      }
+
+      const radio = document.getElementById(OPTION_ID) as HTMLInputElement;
+      const formActions = document.querySelector<HTMLElement>(
+        FORM_ACTIONS_SELECTOR
       );
-      if (zenobiaPayContainer) {
-        (zenobiaPayContainer as HTMLElement).style.display = "none";
+      if (!radio?.checked || !formActions) {
+        unmountButton();
+        restoreFormActions();
+        return;
       }
-    }
+
+      // The checkout replaced the form actions; start over in the new ones
+      if (mounted?.container.parentElement !== formActions) {
+        unmountButton();
+        restoreFormActions();
+        mountButton(formActions);
+      }
+
+      // Hide every other action, including ones added after mounting
+      for (const child of Array.from(formActions.children)) {
+        const element = child as HTMLElement;
+        if (element === mounted?.container || hidden.has(element)) continue;
+        hidden.set(element, element.style.display);
+        element.style.display = "none";
+      }
+    };
+
+    let scheduled = false;
+    const scheduleSync = () => {
+      if (scheduled) return;
+      scheduled = true;
+      queueMicrotask(() => {
+        scheduled = false;
+        sync();
+      });
+    };
+
+    // Style changes are not observed, so hiding actions does not loop
+    const observer = new MutationObserver(scheduleSync);
+    observer.observe(document.body, { childList: true, subtree: true });
+
+    // Listen on the document so radios the checkout re-renders are covered
+    const onChange = (event: Event) => {
+      const target = event.target as HTMLInputElement;
+      if (target.name === "paymentProviderRadio") scheduleSync();
+    };
+    document.addEventListener("change", onChange);
+
+    sync();
+
+    return {
+      destroy() {
+        observer.disconnect();
+        document.removeEventListener("change", onChange);
+        unsubscribe();
+        unmountButton();
+        restoreFormActions();
+        document.getElementById(OPTION_ID)?.closest("li")?.remove();
+      },
+    };
   } catch (error) {
-    console.error("[zenobia-pay] Error initializing payment:", error);
+    logger.error("Error initializing payment", error);
     opts.onError?.(error as Error);
   }
 }
 
+// Settings the loader reads from its own script tag, as data-* attributes
+// or query parameters of the same name; attributes win
+type ScriptConfig = Partial<
+  Pick<
+    InitOpts,
+    | "url"
+    | "label"
+    | "position"
+    | "isTest"
+    | "theme"
+    | "locale"
+    | "buttonText"
+    | "buttonClass"
+    | "completion"
+    | "confirmationUrl"
+    | "debug"
+  >
+> & { storeId?: string };
+
+/**
+ * Read the loader settings from the script tag that loaded it. Returns
+ * every invalid setting, so a misconfigured install reports them all.
+ */
+function readScriptConfig(script: HTMLScriptElement | null): {
+  config: ScriptConfig;
+  errors: ZenobiaValidationError[];
+} {
+  const config: ScriptConfig = {};
+  const errors: ZenobiaValidationError[] = [];
+  let params = new URLSearchParams();
+  try {
+    if (script) {
+      params = new URL(script.src, window.location.href).searchParams;
+    }
+  } catch {
+    // Inline script; only attributes apply
+  }
+
+  // Without its script tag (e.g. loaded as a module) no setting can be
+  // read, and the missing store-id below says so
+  const read = (name: string): string | undefined =>
+    script?.getAttribute(`data-${name}`) ?? params.get(name) ?? undefined;
+  const fail = (name: string, message: string, hint: string) =>
+    errors.push(
+      new ZenobiaValidationError(
+        "invalid_option",
+        name,
+        withHint(`data-${name} ${message}`, hint, true)
+      )
+    );
+  const readText = (name: string): string | undefined => {
+    const value = read(name);
+    if (value !== undefined && value.trim() === "") {
+      fail(name, "is empty", "Remove it or give it a value");
+      return undefined;
+    }
+    return value?.trim();
+  };
+  const readBoolean = (name: string): boolean | undefined => {
+    const value = read(name);
+    if (value === undefined) return undefined;
+    if (value === "true" || value === "") return true;
+    if (value === "false") return false;
+    fail(name, "must be true or false", `Got "${value}"`);
+    return undefined;
+  };
+  const readUrl = (name: string): string | undefined => {
+    const value = readText(name);
+    if (value === undefined) return undefined;
+    try {
+      new URL(value, window.location.href);
+      return value;
+    } catch {
+      fail(name, "is not a valid URL", `Got "${value}"`);
+      return undefined;
+    }
+  };
+
+  const storeId = readText("store-id");
+  if (read("store-id") === undefined) {
+    fail(
+      "store-id",
+      "is required",
+      'Add data-store-id="<store hash>" to the script tag, or ?store-id=<store hash> to its src; the hash is in your BigCommerce control panel URL'
+    );
+  } else if (storeId !== undefined) {
+    if (/^[a-z0-9]+$/i.test(storeId)) {
+      config.storeId = storeId;
+    } else {
+      fail(
+        "store-id",
+        "must be letters and digits only",
+        `Use the store hash from your BigCommerce control panel URL; got "${storeId}"`
+      );
+    }
+  }
+
+  const position = readText("position");
+  if (position === "first" || position === "last") {
+    config.position = position;
+  } else if (position !== undefined) {
+    if (/^\d+$/.test(position)) {
+      config.position = Number(position);
+    } else {
+      fail(
+        "position",
+        'must be "first", "last" or an index',
+        `Got "${position}"`
+      );
+    }
+  }
+
+  const theme = readText("theme");
+  if (theme !== undefined) {
+    const parsed = toTheme(theme);
+    if (
+      parsed !== undefined &&
+      (typeof parsed === "object" || ["light", "dark", "auto"].includes(parsed))
+    ) {
+      config.theme = parsed;
+    } else {
+      fail(
+        "theme",
+        'must be "light", "dark", "auto" or a JSON object',
+        `Got "${theme}"`
+      );
+    }
+  }
+
+  const locale = readText("locale");
+  if (locale !== undefined) {
+    try {
+      config.locale = Intl.getCanonicalLocales(locale)[0];
+    } catch {
+      fail(
+        "locale",
+        "is not a valid locale",
+        `Use a tag like "en-US"; got "${locale}"`
+      );
+    }
+  }
+
+  const completion = readText("completion");
+  if (completion === "redirect" || completion === "native") {
+    config.completion = completion;
+  } else if (completion !== undefined) {
+    fail("completion", 'must be "redirect" or "native"', `Got "${completion}"`);
+  }
+
+  config.url = readUrl("url");
+  config.confirmationUrl = readUrl("confirmation-url");
+  config.label = readText("label");
+  config.buttonText = readText("button-text");
+  config.buttonClass = readText("button-class");
+  config.isTest = readBoolean("test-mode");
+  config.debug = readBoolean("debug");
+
+  // Unset settings must not override the defaults when spread
+  for (const key of Object.keys(config) as (keyof ScriptConfig)[]) {
+    if (config[key] === undefined) delete config[key];
+  }
+  return { config, errors };
+}
+
 // Auto-initialize when script loads
 (function () {
   // Default configuration
@@ -210,8 +666,27 @@ async function initZenobiaPayBigcommerce(opts: InitOpts) {
     buttonClass: "button button--primary button--large button--slab",
   };
 
+  const { config, errors } = readScriptConfig(
+    document.currentScript as HTMLScriptElement | null
+  );
+  if (errors.length > 0) {
+    // A broken install must show up on live stores, where logging is
+    // otherwise silent
+    const logger = createLogger({ level: "error" });
+    for (const error of errors) {
+      logger.error(`Zenobia Pay is not loaded: ${error.message}`);
+    }
+    return;
+  }
+
+  const { storeId, ...settings } = config;
+
   // Start initialization
-  initZenobiaPayBigcommerce(defaultConfig);
+  initZenobiaPayBigcommerce({
+    ...defaultConfig,
+    ...settings,
+    metadata: storeId ? { storeId } : defaultConfig.metadata,
+  });
 })();
 
-(window as any).ZenobiaPay = { init: initZenobiaPayBigcommerce };
+(window as any).ZenobiaPay = { init: initZenobiaPayBigcommerce, createLogger };
@@ -0,0 +1,82 @@
+import { LoggingOptions, resolveLogger } from "./ZenobiaLogger";
+
+export type ZenobiaFunnelEventName =
+  | "button_impression"
+  | "button_click"
+  | "modal_open"
+  | "transfer_created"
+  | "transfer_replaced" // Dropped for a new one after the checkout changed
+  | "qr_rendered"
+  | "qr_scanned"
+  | "qr_unscanned"
+  | "reconnecting"
+  | "reconnected"
+  | "paid"
+  | "failed"
+  | "cancelled"
+  | "closed_by_user"
+  | "expired";
+
+export interface ZenobiaFunnelEvent {
+  name: ZenobiaFunnelEventName;
+  timestamp: number; // Milliseconds since the epoch
+  transferRequestId?: string;
+  timeToScanMs?: number; // qr_scanned: time since the QR code was rendered
+  timeToPayMs?: number; // paid: time since the QR code was rendered
+}
+
+// Forwards funnel events to an analytics backend (Segment, GA, ...)
+export interface ZenobiaAnalyticsAdapter {
+  track: (event: ZenobiaFunnelEvent) => void;
+}
+
+export interface FunnelTrackingOptions extends LoggingOptions {
+  onEvent?: (event: ZenobiaFunnelEvent) => void;
+  analytics?: ZenobiaAnalyticsAdapter;
+}
+
+export interface FunnelTracker {
+  track: (name: ZenobiaFunnelEventName, transferRequestId?: string) => void;
+}
+
+/**
+ * Emit funnel events to `onEvent` and the analytics adapter. Durations are
+ * measured from the first qr_rendered of each transfer; handler errors are
+ * swallowed so analytics can never break a payment.
+ */
+export function createFunnelTracker(
+  options: FunnelTrackingOptions
+): FunnelTracker {
+  let qrRenderedAt: number | undefined;
+
+  const deliver = (handler: () => void) => {
+    try {
+      handler();
+    } catch (error) {
+      resolveLogger(options).error("Analytics handler threw", error);
+    }
+  };
+
+  const track = (name: ZenobiaFunnelEventName, transferRequestId?: string) => {
+    const event: ZenobiaFunnelEvent = {
+      name,
+      timestamp: Date.now(),
+      transferRequestId,
+    };
+
+    if (name === "transfer_created") {
+      qrRenderedAt = undefined;
+    } else if (name === "qr_rendered") {
+      qrRenderedAt ??= event.timestamp;
+    } else if (name === "qr_scanned" && qrRenderedAt !== undefined) {
+      event.timeToScanMs = event.timestamp - qrRenderedAt;
+    } else if (name === "paid" && qrRenderedAt !== undefined) {
+      event.timeToPayMs = event.timestamp - qrRenderedAt;
+    }
+
+    deliver(() => options.onEvent?.(event));
+    deliver(() => options.analytics?.track(event));
+  };
+
+  return { track };
+}
@@ -0,0 +1,45 @@
+import { QrPosition } from "./ZenobiaPaymentButton";
+import type { ZenobiaTheme } from "./ZenobiaTheme";
+import { createLogger } from "./ZenobiaLogger";
+
+// Parsers for option values given as HTML attributes (custom elements and
+// data-* placeholders). Missing or invalid values map to undefined so the
+// component defaults apply.
+
+// Markup mistakes must show up on live sites too, where the default logger
+// is silent
+export const attributeLogger = createLogger({ level: "error" });
+
+export const toNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Boolean attributes are on when present, unless explicitly "false"
+export const toBoolean = (value: string | null): boolean | undefined =>
+  value === null ? undefined : value !== "false";
+
+export const toJson = <T>(
+  name: string,
+  value: string | null
+): T | undefined => {
+  if (value === null) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    attributeLogger.error(`Invalid JSON in the "${name}" attribute`);
+    return undefined;
+  }
+};
+
+// "light", "dark", "auto" or a JSON object of custom tokens
+export const toTheme = (value: string | null): ZenobiaTheme | undefined =>
+  value?.trim().startsWith("{")
+    ? toJson<ZenobiaTheme>("theme", value)
+    : (value as ZenobiaTheme | null) ?? undefined;
+
+export const toQrPosition = (value: string | null): QrPosition | undefined => {
+  const position = value?.toUpperCase();
+  return Object.values(QrPosition).find((p) => p === position);
+};
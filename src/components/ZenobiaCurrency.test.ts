@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatAmount,
+  getCurrencyDigits,
+  toMinorUnits,
+} from "./ZenobiaCurrency";
+
+describe("ZenobiaCurrency", () => {
+  it("formats amounts in minor units", () => {
+    expect(formatAmount(1299, "USD", "en-US")).toBe("$12.99");
+    expect(getCurrencyDigits("JPY")).toBe(0);
+    expect(toMinorUnits(12.5, "KWD")).toBe(12500);
+  });
+
+  it("does not throw for invalid currency codes", () => {
+    expect(getCurrencyDigits("dollars")).toBe(2);
+    expect(formatAmount(1299, "US")).toBe("12.99 US");
+  });
+
+  it("falls back to the default locale for invalid locales", () => {
+    expect(formatAmount(1299, "USD", "not a locale")).toBe(
+      formatAmount(1299, "USD")
+    );
+  });
+});
@@ -0,0 +1,67 @@
+export const DEFAULT_CURRENCY = "USD";
+const DEFAULT_DIGITS = 2;
+
+// Intl throws a RangeError for unknown currency codes and malformed
+// locales; these helpers run during render, so they fall back instead
+const currencyFormat = (
+  currency: string,
+  locale?: string
+): Intl.NumberFormat | null => {
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency });
+  } catch {
+    return null;
+  }
+};
+
+// ISO 4217 codes this browser knows; older ones without
+// Intl.supportedValuesOf only get the shape checked
+let knownCurrencies: Set<string> | null | undefined;
+export const isCurrencyCode = (code: unknown): code is string => {
+  if (typeof code !== "string" || !/^[A-Za-z]{3}$/.test(code)) return false;
+  if (knownCurrencies === undefined) {
+    const supportedValuesOf = (Intl as any).supportedValuesOf as
+      | ((key: string) => string[])
+      | undefined;
+    knownCurrencies = supportedValuesOf
+      ? new Set(supportedValuesOf("currency"))
+      : null;
+  }
+  return knownCurrencies ? knownCurrencies.has(code.toUpperCase()) : true;
+};
+
+// Number of minor-unit digits for a currency (USD 2, JPY 0, KWD 3); 2 for
+// codes Intl does not know
+export const getCurrencyDigits = (currency: string = DEFAULT_CURRENCY) =>
+  currencyFormat(currency, "en")?.resolvedOptions().maximumFractionDigits ??
+  DEFAULT_DIGITS;
+
+// Convert an amount in minor units (cents, fils, ...) to major units
+export const fromMinorUnits = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY
+): number => amount / 10 ** getCurrencyDigits(currency);
+
+// Convert an amount in major units to whole minor units
+export const toMinorUnits = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY
+): number => Math.round(amount * 10 ** getCurrencyDigits(currency));
+
+/**
+ * Format an amount given in minor units, e.g. formatAmount(1299, "USD")
+ * gives "$12.99" and formatAmount(1299, "JPY", "ja-JP") gives "￥1,299".
+ * An invalid locale falls back to the default one, an invalid currency to
+ * the plain number followed by the code.
+ */
+export const formatAmount = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  locale?: string
+): string => {
+  const major = fromMinorUnits(amount, currency);
+  const format = currencyFormat(currency, locale) ?? currencyFormat(currency);
+  return format
+    ? format.format(major)
+    : `${major.toFixed(DEFAULT_DIGITS)} ${currency}`;
+};
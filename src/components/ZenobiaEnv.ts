@@ -0,0 +1,13 @@
+/**
+ * Whether the app embedding us is a development build. The consumer's
+ * bundler replaces `process.env.NODE_ENV`; Vite leaves it alone in library
+ * mode. The script-tag bundles have no such step, so the lookup throws
+ * there and they count as production.
+ */
+export const isDevelopment = (): boolean => {
+  try {
+    return process.env.NODE_ENV !== "production";
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,72 @@
+export type ZenobiaErrorCode =
+  | "network_error" // The request never got a response
+  | "timeout" // No response within the configured timeout
+  | "http_error" // The endpoint answered with a non-2xx status
+  | "invalid_response" // The endpoint answered with something unusable
+  | "create_failed" // Any other failure while creating the transfer
+  | "invalid_amount"
+  | "missing_endpoint" // No url, createTransfer or transferRequest
+  | "invalid_url"
+  | "invalid_metadata"
+  | "invalid_currency"
+  | "invalid_option"
+  | "invalid_target" // The init target selector matched nothing
+  | "checkout_changed"; // Amount or metadata changed after the QR code was scanned
+
+/**
+ * Base class for errors passed to `onError`. Switch on `code` rather than
+ * `instanceof` when errors may cross bundle boundaries.
+ */
+export class ZenobiaError extends Error {
+  readonly code: ZenobiaErrorCode;
+
+  constructor(code: ZenobiaErrorCode, message: string, cause?: unknown) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = "ZenobiaError";
+    this.code = code;
+  }
+}
+
+export class ZenobiaNetworkError extends ZenobiaError {
+  constructor(
+    message: string,
+    cause?: unknown,
+    code: "network_error" | "timeout" = "network_error"
+  ) {
+    super(code, message, cause);
+    this.name = "ZenobiaNetworkError";
+  }
+}
+
+export class ZenobiaHttpError extends ZenobiaError {
+  readonly status: number;
+  readonly body?: unknown; // Parsed JSON or text of the error response
+
+  constructor(status: number, message: string, body?: unknown) {
+    super("http_error", message);
+    this.name = "ZenobiaHttpError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export class ZenobiaResponseError extends ZenobiaError {
+  readonly body?: unknown; // What the endpoint returned
+
+  constructor(message: string, body?: unknown) {
+    super("invalid_response", message);
+    this.name = "ZenobiaResponseError";
+    this.body = body;
+  }
+}
+
+// Wrap anything thrown into a ZenobiaError, keeping the original as cause
+export const toZenobiaError = (
+  error: unknown,
+  code: ZenobiaErrorCode = "create_failed"
+): ZenobiaError => {
+  if (error instanceof ZenobiaError) return error;
+  const message =
+    error instanceof Error ? error.message : String(error ?? "Unknown error");
+  return new ZenobiaError(code, message, error);
+};
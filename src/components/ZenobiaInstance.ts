@@ -0,0 +1,68 @@
+import type {
+  CreateTransferRequestResponse,
+  TransferStatus,
+} from "./ZenobiaPaymentButton";
+import type { ClientTransferStatus } from "./ZenobiaTransferSession";
+import { ZenobiaLogger, defaultLogger } from "./ZenobiaLogger";
+
+export interface ZenobiaInstanceEvents {
+  open: void;
+  close: void;
+  success: {
+    response: CreateTransferRequestResponse;
+    status: ClientTransferStatus;
+  };
+  error: Error;
+  statuschange: TransferStatus;
+  expire: CreateTransferRequestResponse;
+}
+
+export type ZenobiaInstanceEvent = keyof ZenobiaInstanceEvents;
+
+// Handle returned by ZenobiaPay.init and ZenobiaPayModal.init
+export interface ZenobiaPayInstance<Opts> {
+  open: () => void;
+  close: () => void;
+  update: (opts: Partial<Opts>) => void; // Merged into the current options
+  destroy: () => void; // Unmount and drop all listeners
+  getStatus: () => TransferStatus | null; // Last status of the current transfer
+  on: <E extends ZenobiaInstanceEvent>(
+    event: E,
+    listener: (payload: ZenobiaInstanceEvents[E]) => void
+  ) => () => void; // Returns an unsubscribe function
+}
+
+export interface Emitter<Events> {
+  on: <E extends keyof Events>(
+    event: E,
+    listener: (payload: Events[E]) => void
+  ) => () => void;
+  emit: <E extends keyof Events>(event: E, payload: Events[E]) => void;
+  clear: () => void;
+}
+
+export function createEmitter<Events>(
+  logger: ZenobiaLogger = defaultLogger
+): Emitter<Events> {
+  const listeners = new Map<keyof Events, Set<(payload: any) => void>>();
+
+  return {
+    on: (event, listener) => {
+      if (!listeners.has(event)) {
+        listeners.set(event, new Set());
+      }
+      listeners.get(event)!.add(listener);
+      return () => listeners.get(event)?.delete(listener);
+    },
+    emit: (event, payload) => {
+      listeners.get(event)?.forEach((listener) => {
+        try {
+          listener(payload);
+        } catch (error) {
+          logger.error(`"${String(event)}" listener threw`, error);
+        }
+      });
+    },
+    clear: () => listeners.clear(),
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+import { createLogger, resolveLogger } from "./ZenobiaLogger";
+
+const spyLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+describe("resolveLogger", () => {
+  it("redacts PII before it reaches a logger passed as an option", () => {
+    const output = spyLogger();
+    const logger = resolveLogger({ logger: output });
+
+    logger.debug("Checkout loaded", {
+      id: "c1",
+      billingAddress: { email: "a@b.co", firstName: "Ada", city: "Paris" },
+    });
+
+    expect(output.debug).toHaveBeenCalledWith("[zenobia-pay] Checkout loaded", {
+      id: "c1",
+      billingAddress: {
+        email: "[redacted]",
+        firstName: "[redacted]",
+        city: "Paris",
+      },
+    });
+  });
+
+  it("returns the same wrapper for the same logger", () => {
+    const output = spyLogger();
+    expect(resolveLogger({ logger: output })).toBe(
+      resolveLogger({ logger: output })
+    );
+  });
+
+  it("passes loggers from createLogger through unchanged", () => {
+    const logger = createLogger({ output: spyLogger(), level: "warn" });
+    expect(resolveLogger({ logger })).toBe(logger);
+  });
+});
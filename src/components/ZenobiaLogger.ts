@@ -0,0 +1,183 @@
+import { isDevelopment } from "./ZenobiaEnv";
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export interface LogEntry {
+  level: Exclude<LogLevel, "silent">;
+  message: string;
+  data?: unknown; // Redacted copy of the logged data
+  timestamp: number; // Milliseconds since the epoch
+}
+
+// Anything console-shaped works, including `console` itself
+export interface ZenobiaLogger {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+}
+
+export interface BufferedLogger extends ZenobiaLogger {
+  entries: () => LogEntry[]; // Recent entries, oldest first
+  clear: () => void;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel; // Minimum level written out; debug in development builds, silent otherwise
+  output?: ZenobiaLogger; // Where entries are written, defaults to the console
+  bufferSize?: number; // Keep this many recent entries of any level, e.g. for support tickets
+  redactKeys?: string[]; // Field names to redact on top of the built-in PII list
+}
+
+// Options accepted by the components, session and bundles
+export interface LoggingOptions {
+  logger?: ZenobiaLogger;
+  debug?: boolean; // Shorthand for a console logger at the debug level
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+const DEFAULT_LEVEL: LogLevel = isDevelopment() ? "debug" : "silent";
+
+// Compared case-insensitively against object keys
+const PII_KEYS = [
+  "email",
+  "customerEmail",
+  "phone",
+  "firstName",
+  "lastName",
+  "fullName",
+  "address1",
+  "address2",
+  "postalCode",
+  "company",
+  "signature",
+];
+
+const EMAIL_PATTERN = /[^\s@"'<>]+@[^\s@"'<>]+\.[^\s@"'<>]+/g;
+const REDACTED = "[redacted]";
+const MAX_DEPTH = 8;
+
+const redactValue = (
+  value: unknown,
+  keys: Set<string>,
+  seen: WeakSet<object>,
+  depth: number
+): unknown => {
+  if (typeof value === "string") {
+    return value.replace(EMAIL_PATTERN, REDACTED);
+  }
+  // Errors are ours; keep them intact so the stack stays readable
+  if (typeof value !== "object" || value === null || value instanceof Error) {
+    return value;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) return "[…]";
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, keys, seen, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = keys.has(key.toLowerCase())
+      ? REDACTED
+      : redactValue(item, keys, seen, depth + 1);
+  }
+  return result;
+};
+
+/**
+ * Copy `value` with PII replaced by "[redacted]": known personal fields
+ * (emails, names, addresses, signatures, plus `extraKeys`) and anything
+ * that looks like an email address inside strings.
+ */
+export function redact(value: unknown, extraKeys: string[] = []): unknown {
+  const keys = new Set(
+    [...PII_KEYS, ...extraKeys].map((key) => key.toLowerCase())
+  );
+  return redactValue(value, keys, new WeakSet(), 0);
+}
+
+// Loggers from createLogger redact already; anything else gets wrapped
+const redactingLoggers = new WeakSet<ZenobiaLogger>();
+const wrappedLoggers = new WeakMap<ZenobiaLogger, ZenobiaLogger>();
+
+export function createLogger(options: LoggerOptions = {}): BufferedLogger {
+  const level = options.level ?? DEFAULT_LEVEL;
+  const output = options.output ?? console;
+  const bufferSize = options.bufferSize ?? 0;
+  let buffer: LogEntry[] = [];
+
+  const log =
+    (entryLevel: LogEntry["level"]) => (message: string, data?: unknown) => {
+      const wanted = LEVEL_ORDER[entryLevel] >= LEVEL_ORDER[level];
+      if (!wanted && bufferSize === 0) return;
+
+      const entry: LogEntry = {
+        level: entryLevel,
+        message: redact(message) as string,
+        timestamp: Date.now(),
+      };
+      if (data !== undefined) {
+        entry.data = redact(data, options.redactKeys);
+      }
+
+      if (bufferSize > 0) {
+        buffer.push(entry);
+        if (buffer.length > bufferSize) buffer.shift();
+      }
+
+      if (wanted) {
+        const text = `[zenobia-pay] ${entry.message}`;
+        if (data === undefined) {
+          output[entryLevel](text);
+        } else {
+          output[entryLevel](text, entry.data);
+        }
+      }
+    };
+
+  const logger: BufferedLogger = {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    entries: () => [...buffer],
+    clear: () => {
+      buffer = [];
+    },
+  };
+  redactingLoggers.add(logger);
+  return logger;
+}
+
+// A logger passed in as an option, such as `console`, still gets PII
+// redacted; its own level filtering is left alone
+const withRedaction = (logger: ZenobiaLogger): ZenobiaLogger => {
+  if (redactingLoggers.has(logger)) return logger;
+  let wrapped = wrappedLoggers.get(logger);
+  if (!wrapped) {
+    wrapped = createLogger({ output: logger, level: "debug" });
+    wrappedLoggers.set(logger, wrapped);
+  }
+  return wrapped;
+};
+
+// Shared fallbacks so components without their own logger agree
+export const defaultLogger = createLogger();
+const debugLogger = createLogger({ level: "debug" });
+
+// Pick the logger for a set of options; read lazily so props can change
+export const resolveLogger = (options: LoggingOptions): ZenobiaLogger =>
+  options.logger
+    ? withRedaction(options.logger)
+    : options.debug
+    ? debugLogger
+    : defaultLogger;
@@ -0,0 +1,399 @@
+// Plural messages are selected with Intl.PluralRules using the `count`
+// variable; `other` is required as the fallback form
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+export type Message = string | PluralMessage;
+
+export interface ZenobiaMessages {
+  modalTitle: Message;
+  modalSubtitle: Message;
+  testModeBadge: Message;
+  testModeTooltip: Message;
+  completeOnPhone: Message;
+  reconnectingOverlay: Message;
+  openApp: Message;
+  openAppTitle: Message;
+  preparingPayment: Message;
+  creatingPayment: Message;
+  reconnecting: Message;
+  waitingForPayment: Message;
+  paymentExpired: Message;
+  expiresIn: Message; // {time}
+  expiringSoon: Message; // {time}
+  expired: Message;
+  refresh: Message;
+  successTitle: Message;
+  successMessage: Message; // {amount}
+  failedTitle: Message;
+  failedMessage: Message;
+  cancelledTitle: Message;
+  cancelledMessage: Message;
+  tryAgain: Message;
+  close: Message;
+  confirmCloseTitle: Message;
+  confirmCloseMessage: Message;
+  keepWaiting: Message;
+  closeAnyway: Message;
+  payButton: Message;
+  payAmount: Message; // {amount}
+  cashbackPercent: Message; // {percentage}, plural on {count}
+  cashbackAmount: Message; // {amount}
+  cashbackAppliedPercent: Message; // {percentage}, plural on {count}
+  cashbackAppliedAmount: Message; // {amount}
+  // Names on the shopper's bank statement, sent with the BigCommerce metadata
+  statementPayment: Message;
+  statementShipping: Message;
+  statementDiscount: Message;
+  statementCoupon: Message; // {code}
+}
+
+export type MessageKey = keyof ZenobiaMessages;
+
+export type MessageValues = Record<string, string | number>;
+
+const en: ZenobiaMessages = {
+  modalTitle: "Pay by bank with Zenobia",
+  modalSubtitle: "Scan to complete your purchase",
+  testModeBadge: "Test Mode",
+  testModeTooltip: "Test Mode: No real money will be moved.",
+  completeOnPhone: "Complete on your phone",
+  reconnectingOverlay: "Attempting to reconnect...",
+  openApp: "Open app to continue",
+  openAppTitle: "Open on mobile device",
+  preparingPayment: "Preparing payment...",
+  creatingPayment: "Creating payment...",
+  reconnecting: "Reconnecting...",
+  waitingForPayment: "Waiting for payment",
+  paymentExpired: "Payment request expired",
+  expiresIn: "Expires in {time}",
+  expiringSoon: "Expiring soon · {time}",
+  expired: "Expired",
+  refresh: "Refresh",
+  successTitle: "Payment complete",
+  successMessage: "Your payment of {amount} was received.",
+  failedTitle: "Payment failed",
+  failedMessage: "The payment could not be completed.",
+  cancelledTitle: "Payment cancelled",
+  cancelledMessage: "The payment was cancelled on your phone.",
+  tryAgain: "Try again",
+  close: "Close",
+  confirmCloseTitle: "Payment in progress",
+  confirmCloseMessage:
+    "You've already scanned the code. Closing now may leave your payment unconfirmed.",
+  keepWaiting: "Keep waiting",
+  closeAnyway: "Close anyway",
+  payButton: "Pay with Zenobia",
+  payAmount: "Pay {amount}",
+  cashbackPercent: "Get {percentage}% cashback",
+  cashbackAmount: "Get {amount} cashback",
+  cashbackAppliedPercent: "✨ {percentage}% cashback applied!",
+  cashbackAppliedAmount: "✨ Applied {amount} cashback!",
+  statementPayment: "Payment",
+  statementShipping: "Shipping",
+  statementDiscount: "Discount",
+  statementCoupon: "Coupon {code}",
+};
+
+const es: ZenobiaMessages = {
+  modalTitle: "Paga con tu banco con Zenobia",
+  modalSubtitle: "Escanea para completar tu compra",
+  testModeBadge: "Modo de prueba",
+  testModeTooltip: "Modo de prueba: no se moverá dinero real.",
+  completeOnPhone: "Completa el pago en tu teléfono",
+  reconnectingOverlay: "Intentando reconectar...",
+  openApp: "Abre la app para continuar",
+  openAppTitle: "Abrir en el dispositivo móvil",
+  preparingPayment: "Preparando el pago...",
+  creatingPayment: "Creando el pago...",
+  reconnecting: "Reconectando...",
+  waitingForPayment: "Esperando el pago",
+  paymentExpired: "La solicitud de pago ha caducado",
+  expiresIn: "Caduca en {time}",
+  expiringSoon: "Caduca pronto · {time}",
+  expired: "Caducado",
+  refresh: "Actualizar",
+  successTitle: "Pago completado",
+  successMessage: "Hemos recibido tu pago de {amount}.",
+  failedTitle: "Pago fallido",
+  failedMessage: "No se pudo completar el pago.",
+  cancelledTitle: "Pago cancelado",
+  cancelledMessage: "El pago se canceló en tu teléfono.",
+  tryAgain: "Intentar de nuevo",
+  close: "Cerrar",
+  confirmCloseTitle: "Pago en curso",
+  confirmCloseMessage:
+    "Ya escaneaste el código. Si cierras ahora, es posible que tu pago no se confirme.",
+  keepWaiting: "Seguir esperando",
+  closeAnyway: "Cerrar de todos modos",
+  payButton: "Pagar con Zenobia",
+  payAmount: "Pagar {amount}",
+  cashbackPercent: "Obtén un {percentage}% de reembolso",
+  cashbackAmount: "Obtén {amount} de reembolso",
+  cashbackAppliedPercent: "✨ ¡{percentage}% de reembolso aplicado!",
+  cashbackAppliedAmount: "✨ ¡Reembolso de {amount} aplicado!",
+  statementPayment: "Pago",
+  statementShipping: "Envío",
+  statementDiscount: "Descuento",
+  statementCoupon: "Cupón {code}",
+};
+
+const fr: ZenobiaMessages = {
+  modalTitle: "Payer par virement avec Zenobia",
+  modalSubtitle: "Scannez pour finaliser votre achat",
+  testModeBadge: "Mode test",
+  testModeTooltip: "Mode test : aucun argent réel ne sera débité.",
+  completeOnPhone: "Finalisez sur votre téléphone",
+  reconnectingOverlay: "Tentative de reconnexion...",
+  openApp: "Ouvrez l'app pour continuer",
+  openAppTitle: "Ouvrir sur un appareil mobile",
+  preparingPayment: "Préparation du paiement...",
+  creatingPayment: "Création du paiement...",
+  reconnecting: "Reconnexion...",
+  waitingForPayment: "En attente du paiement",
+  paymentExpired: "La demande de paiement a expiré",
+  expiresIn: "Expire dans {time}",
+  expiringSoon: "Expire bientôt · {time}",
+  expired: "Expiré",
+  refresh: "Actualiser",
+  successTitle: "Paiement effectué",
+  successMessage: "Votre paiement de {amount} a bien été reçu.",
+  failedTitle: "Échec du paiement",
+  failedMessage: "Le paiement n'a pas pu être effectué.",
+  cancelledTitle: "Paiement annulé",
+  cancelledMessage: "Le paiement a été annulé sur votre téléphone.",
+  tryAgain: "Réessayer",
+  close: "Fermer",
+  confirmCloseTitle: "Paiement en cours",
+  confirmCloseMessage:
+    "Vous avez déjà scanné le code. Si vous fermez maintenant, votre paiement risque de ne pas être confirmé.",
+  keepWaiting: "Continuer d'attendre",
+  closeAnyway: "Fermer quand même",
+  payButton: "Payer avec Zenobia",
+  payAmount: "Payer {amount}",
+  cashbackPercent: "Obtenez {percentage} % de cashback",
+  cashbackAmount: "Obtenez {amount} de cashback",
+  cashbackAppliedPercent: "✨ {percentage} % de cashback appliqué !",
+  cashbackAppliedAmount: "✨ {amount} de cashback appliqué !",
+  statementPayment: "Paiement",
+  statementShipping: "Livraison",
+  statementDiscount: "Remise",
+  statementCoupon: "Code promo {code}",
+};
+
+const de: ZenobiaMessages = {
+  modalTitle: "Per Bank mit Zenobia bezahlen",
+  modalSubtitle: "Scannen, um den Kauf abzuschließen",
+  testModeBadge: "Testmodus",
+  testModeTooltip: "Testmodus: Es wird kein echtes Geld bewegt.",
+  completeOnPhone: "Auf dem Smartphone abschließen",
+  reconnectingOverlay: "Verbindung wird wiederhergestellt...",
+  openApp: "App öffnen, um fortzufahren",
+  openAppTitle: "Auf Mobilgerät öffnen",
+  preparingPayment: "Zahlung wird vorbereitet...",
+  creatingPayment: "Zahlung wird erstellt...",
+  reconnecting: "Verbinde erneut...",
+  waitingForPayment: "Warte auf Zahlung",
+  paymentExpired: "Die Zahlungsanforderung ist abgelaufen",
+  expiresIn: "Läuft ab in {time}",
+  expiringSoon: "Läuft bald ab · {time}",
+  expired: "Abgelaufen",
+  refresh: "Aktualisieren",
+  successTitle: "Zahlung abgeschlossen",
+  successMessage: "Ihre Zahlung über {amount} ist eingegangen.",
+  failedTitle: "Zahlung fehlgeschlagen",
+  failedMessage: "Die Zahlung konnte nicht abgeschlossen werden.",
+  cancelledTitle: "Zahlung abgebrochen",
+  cancelledMessage: "Die Zahlung wurde auf Ihrem Smartphone abgebrochen.",
+  tryAgain: "Erneut versuchen",
+  close: "Schließen",
+  confirmCloseTitle: "Zahlung läuft",
+  confirmCloseMessage:
+    "Sie haben den Code bereits gescannt. Wenn Sie jetzt schließen, wird Ihre Zahlung möglicherweise nicht bestätigt.",
+  keepWaiting: "Weiter warten",
+  closeAnyway: "Trotzdem schließen",
+  payButton: "Mit Zenobia bezahlen",
+  payAmount: "{amount} bezahlen",
+  cashbackPercent: "{percentage} % Cashback erhalten",
+  cashbackAmount: "{amount} Cashback erhalten",
+  cashbackAppliedPercent: "✨ {percentage} % Cashback angewendet!",
+  cashbackAppliedAmount: "✨ {amount} Cashback angewendet!",
+  statementPayment: "Zahlung",
+  statementShipping: "Versand",
+  statementDiscount: "Rabatt",
+  statementCoupon: "Gutschein {code}",
+};
+
+const ru: ZenobiaMessages = {
+  modalTitle: "Оплата через банк с Zenobia",
+  modalSubtitle: "Отсканируйте, чтобы завершить покупку",
+  testModeBadge: "Тестовый режим",
+  testModeTooltip: "Тестовый режим: реальные деньги не списываются.",
+  completeOnPhone: "Завершите оплату на телефоне",
+  reconnectingOverlay: "Пытаемся восстановить соединение...",
+  openApp: "Откройте приложение, чтобы продолжить",
+  openAppTitle: "Открыть на мобильном устройстве",
+  preparingPayment: "Подготовка платежа...",
+  creatingPayment: "Создание платежа...",
+  reconnecting: "Переподключение...",
+  waitingForPayment: "Ожидание оплаты",
+  paymentExpired: "Срок действия запроса на оплату истёк",
+  expiresIn: "Истекает через {time}",
+  expiringSoon: "Скоро истечёт · {time}",
+  expired: "Срок истёк",
+  refresh: "Обновить",
+  successTitle: "Оплата прошла",
+  successMessage: "Ваш платёж на сумму {amount} получен.",
+  failedTitle: "Оплата не прошла",
+  failedMessage: "Не удалось завершить платёж.",
+  cancelledTitle: "Оплата отменена",
+  cancelledMessage: "Платёж был отменён на телефоне.",
+  tryAgain: "Попробовать снова",
+  close: "Закрыть",
+  confirmCloseTitle: "Оплата выполняется",
+  confirmCloseMessage:
+    "Вы уже отсканировали код. Если закрыть окно сейчас, платёж может остаться неподтверждённым.",
+  keepWaiting: "Продолжить ожидание",
+  closeAnyway: "Всё равно закрыть",
+  payButton: "Оплатить через Zenobia",
+  payAmount: "Оплатить {amount}",
+  cashbackPercent: {
+    one: "Кешбэк {percentage} процент",
+    few: "Кешбэк {percentage} процента",
+    many: "Кешбэк {percentage} процентов",
+    other: "Кешбэк {percentage} процента",
+  },
+  cashbackAmount: "Кешбэк {amount}",
+  cashbackAppliedPercent: {
+    one: "✨ Начислен кешбэк {percentage} процент!",
+    few: "✨ Начислен кешбэк {percentage} процента!",
+    many: "✨ Начислен кешбэк {percentage} процентов!",
+    other: "✨ Начислен кешбэк {percentage} процента!",
+  },
+  cashbackAppliedAmount: "✨ Начислен кешбэк {amount}!",
+  statementPayment: "Оплата",
+  statementShipping: "Доставка",
+  statementDiscount: "Скидка",
+  statementCoupon: "Купон {code}",
+};
+
+const ar: ZenobiaMessages = {
+  modalTitle: "ادفع عبر البنك مع Zenobia",
+  modalSubtitle: "امسح الرمز لإتمام عملية الشراء",
+  testModeBadge: "وضع الاختبار",
+  testModeTooltip: "وضع الاختبار: لن يتم تحويل أموال حقيقية.",
+  completeOnPhone: "أكمل الدفع على هاتفك",
+  reconnectingOverlay: "جارٍ محاولة إعادة الاتصال...",
+  openApp: "افتح التطبيق للمتابعة",
+  openAppTitle: "افتح على الجهاز المحمول",
+  preparingPayment: "جارٍ تجهيز الدفع...",
+  creatingPayment: "جارٍ إنشاء الدفع...",
+  reconnecting: "جارٍ إعادة الاتصال...",
+  waitingForPayment: "في انتظار الدفع",
+  paymentExpired: "انتهت صلاحية طلب الدفع",
+  expiresIn: "تنتهي الصلاحية خلال {time}",
+  expiringSoon: "تنتهي الصلاحية قريبًا · {time}",
+  expired: "منتهي الصلاحية",
+  refresh: "تحديث",
+  successTitle: "تم الدفع",
+  successMessage: "تم استلام دفعتك بقيمة {amount}.",
+  failedTitle: "فشل الدفع",
+  failedMessage: "تعذّر إتمام الدفع.",
+  cancelledTitle: "تم إلغاء الدفع",
+  cancelledMessage: "تم إلغاء الدفع من هاتفك.",
+  tryAgain: "حاول مرة أخرى",
+  close: "إغلاق",
+  confirmCloseTitle: "الدفع قيد التنفيذ",
+  confirmCloseMessage:
+    "لقد مسحت الرمز بالفعل. إذا أغلقت الآن، فقد لا يتم تأكيد دفعتك.",
+  keepWaiting: "مواصلة الانتظار",
+  closeAnyway: "إغلاق على أي حال",
+  payButton: "ادفع مع Zenobia",
+  payAmount: "ادفع {amount}",
+  cashbackPercent: "احصل على استرداد نقدي بنسبة {percentage}٪",
+  cashbackAmount: "احصل على استرداد نقدي بقيمة {amount}",
+  cashbackAppliedPercent: "✨ تم تطبيق استرداد نقدي بنسبة {percentage}٪!",
+  cashbackAppliedAmount: "✨ تم تطبيق استرداد نقدي بقيمة {amount}!",
+  statementPayment: "الدفع",
+  statementShipping: "الشحن",
+  statementDiscount: "الخصم",
+  statementCoupon: "قسيمة {code}",
+};
+
+// Built-in catalogs, keyed by base language
+export const messageCatalogs: Record<string, ZenobiaMessages> = {
+  en,
+  es,
+  fr,
+  de,
+  ru,
+  ar,
+};
+
+const DEFAULT_LOCALE = "en";
+
+const RTL_LANGUAGES = ["ar", "he", "fa", "ur"];
+
+const getLanguage = (locale: string): string =>
+  locale.toLowerCase().split(/[-_]/)[0];
+
+export const isRtlLocale = (locale: string): boolean =>
+  RTL_LANGUAGES.includes(getLanguage(locale));
+
+// Use the requested locale, else the browser's, else English
+export const resolveLocale = (locale?: string): string => {
+  if (locale) return locale;
+  if (typeof navigator !== "undefined" && navigator.language) {
+    return navigator.language;
+  }
+  return DEFAULT_LOCALE;
+};
+
+// Pick the plural form (if any) and substitute {placeholders}
+export const formatMessage = (
+  message: Message,
+  locale: string,
+  values: MessageValues = {}
+): string => {
+  let template: string;
+  if (typeof message === "string") {
+    template = message;
+  } else {
+    const rule = new Intl.PluralRules(locale).select(Number(values.count));
+    template = message[rule] ?? message.other;
+  }
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    values[name] !== undefined ? String(values[name]) : match
+  );
+};
+
+export interface Translator {
+  locale: string;
+  dir: "ltr" | "rtl";
+  t: (key: MessageKey, values?: MessageValues) => string;
+}
+
+/**
+ * Build a translator for a locale. Missing locales fall back to the base
+ * language catalog and then to English; `messages` overrides individual
+ * strings on top of the catalog.
+ */
+export function createTranslator(
+  locale?: string,
+  messages?: Partial<ZenobiaMessages>
+): Translator {
+  const resolvedLocale = resolveLocale(locale);
+  const catalog = {
+    ...en,
+    ...messageCatalogs[getLanguage(resolvedLocale)],
+    ...messages,
+  };
+
+  return {
+    locale: resolvedLocale,
+    dir: isRtlLocale(resolvedLocale) ? "rtl" : "ltr",
+    t: (key, values) => formatMessage(catalog[key], resolvedLocale, values),
+  };
+}
@@ -1,6 +1,33 @@
-import { createSignal, Component, Show } from "solid-js";
+import {
+  createSignal,
+  createMemo,
+  Component,
+  Show,
+  onMount,
+  onCleanup,
+  createEffect,
+} from "solid-js";
 import { ZenobiaPaymentModal } from "./ZenobiaPaymentModal";
+import { findResumableTransfer } from "./ZenobiaTransferSession";
 import { zenobiaPaymentStyles } from "./ZenobiaPaymentStyles";
+import { formatAmount, fromMinorUnits } from "./ZenobiaCurrency";
+import { ZenobiaTheme, createTheme } from "./ZenobiaTheme";
+import { createOptionsCheck } from "./ZenobiaValidation";
+import {
+  ZenobiaAnalyticsAdapter,
+  ZenobiaFunnelEvent,
+  createFunnelTracker,
+} from "./ZenobiaAnalytics";
+import type { ZenobiaLogger } from "./ZenobiaLogger";
+import type {
+  CreateTransferFn,
+  CreateTransferOptions,
+} from "./ZenobiaTransferRequest";
+import {
+  Translator,
+  ZenobiaMessages,
+  createTranslator,
+} from "./ZenobiaMessages";
 
 export interface CreateTransferRequestResponse {
   transferRequestId: string;
@@ -16,6 +43,7 @@ export enum TransferStatus {
   SETTLED = "SETTLED",
   FAILED = "FAILED",
   CANCELLED = "CANCELLED",
+  EXPIRED = "EXPIRED",
 }
 
 // Define an enum for QR code position
@@ -25,7 +53,6 @@ export enum QrPosition {
   POPUP = "POPUP",
 }
 
-// Random comment
 // Define interface for client TransferStatus
 interface ClientTransferStatus {
   status: string;
@@ -35,10 +62,12 @@ interface ClientTransferStatus {
 interface ZenobiaPaymentButtonProps {
   amount: number;
   url: string; // Full URL to the payment endpoint
+  createTransferOptions?: CreateTransferOptions; // Request options, timeout and retries for `url`
+  createTransfer?: CreateTransferFn; // Create the transfer yourself instead of posting to `url`
   metadata?: Record<string, any>; // Optional metadata
   buttonText?: string;
   isTest?: boolean;
-  buttonClass?: string;
+  buttonClass?: string; // Extra classes on the pay button; page styles only reach it outside a shadow root
   qrCodeSize?: number;
   discountAmount?: number; // discount amount in cents
   hideQrOnMobile?: boolean; // New prop to control QR display on mobile
@@ -50,6 +79,36 @@ interface ZenobiaPaymentButtonProps {
   onError?: (error: Error) => void;
   onStatusChange?: (status: TransferStatus) => void;
   qrPosition?: QrPosition;
+  onExpire?: (response: CreateTransferRequestResponse) => void;
+  onScanChange?: (scanned: boolean) => void; // QR scanned / unscanned on the phone
+  onEvent?: (event: ZenobiaFunnelEvent) => void; // Funnel analytics events
+  analytics?: ZenobiaAnalyticsAdapter;
+  onAbandon?: (transferRequestId: string) => void; // Closed while the transfer was still pending
+  listenAfterClose?: boolean; // Keep listening after closing so a late payment still reaches onSuccess
+  confirmCloseWhenScanned?: boolean; // Ask before closing once the QR code is scanned (default true)
+  persistTransfer?: boolean; // Resume the transfer (and reopen the modal) after a page reload
+  reuseTransfer?: boolean; // Reopening shows the same transfer while it is valid and the checkout is unchanged
+  logger?: ZenobiaLogger; // Defaults to the console, silent in production builds
+  debug?: boolean; // Log everything to the console
+  maxRegenerations?: number; // New QR codes generated on expiry before showing the expired state
+  autoCloseDelay?: number; // Close the modal this many ms after a successful payment
+  pollingUrl?: string; // HTTP status endpoint used when the WebSocket keeps failing
+  pollingFallbackAfter?: number; // Failed reconnects before switching to polling
+  currency?: string; // ISO 4217 code, amounts are in its minor units (default USD)
+  locale?: string; // BCP 47 tag, defaults to the browser language
+  messages?: Partial<ZenobiaMessages>; // Overrides for the built-in copy
+  closeOnEscape?: boolean; // Defaults to true
+  closeOnOverlayClick?: boolean; // Defaults to true
+  theme?: ZenobiaTheme; // "light", "dark", "auto" or custom tokens
+  onOpen?: () => void;
+  onClose?: () => void;
+  ref?: (api: ZenobiaPaymentButtonApi) => void; // Imperative open/close
+}
+
+// Imperative handle passed to the `ref` prop
+export interface ZenobiaPaymentButtonApi {
+  open: () => void;
+  close: () => void;
 }
 
 // Define animation states
@@ -78,38 +137,88 @@ export const ZenobiaPaymentButton: Component<ZenobiaPaymentButtonProps> = (
     AnimationState.INITIAL
   );
   const [isClosing, setIsClosing] = createSignal<boolean>(false);
+  const [containerRef, setContainerRef] = createSignal<HTMLDivElement>();
+  let buttonRef: HTMLButtonElement | undefined;
+  const translator = createMemo(() =>
+    createTranslator(props.locale, props.messages)
+  );
+  const t: Translator["t"] = (key, values) => translator().t(key, values);
+  const theme = createTheme(() => props.theme);
+  const formatPrice = (amount: number) =>
+    formatAmount(amount, props.currency, translator().locale);
+  const funnel = createFunnelTracker(props);
+  // Invalid options are reported to onError; the button stays disabled and
+  // shows no amounts until they are fixed
+  const isValid = createOptionsCheck(props);
+
+  // Report the impression once at least half of the button is on screen
+  onMount(() => {
+    if (!buttonRef) return;
+    if (typeof IntersectionObserver === "undefined") {
+      funnel.track("button_impression");
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          funnel.track("button_impression");
+          observer.disconnect();
+        }
+      },
+      { threshold: 0.5 }
+    );
+    observer.observe(buttonRef);
+    onCleanup(() => observer.disconnect());
+  });
 
   // Get savings text for button
   const getSavingsText = () => {
     const discount = props.discountAmount || 0;
     if (discount == 0) {
       return props.buttonText;
-    } else if (discount < 1000) {
-      // Less than $10 (in cents)
+    } else if (fromMinorUnits(discount, props.currency) < 10) {
+      // Less than 10 in major units (e.g. $10)
       const percentage = ((discount / props.amount) * 100).toFixed(0);
-      return `Get ${percentage}% cashback`;
+      return t("cashbackPercent", {
+        percentage,
+        count: Number(percentage),
+      });
     } else {
-      return `Get $${(discount / 100).toFixed(2)} cashback`;
+      return t("cashbackAmount", {
+        amount: formatPrice(discount),
+      });
     }
   };
 
   const handleClick = () => {
+    if (animationState() !== AnimationState.INITIAL || !isValid()) return;
+
     // Show QR screen immediately with placeholder
     setAnimationState(AnimationState.QR_EXPANDING);
+    props.onOpen?.();
 
     // Add a small delay for the animation
     setTimeout(() => {
-      setAnimationState(AnimationState.QR_VISIBLE);
+      // Skip if the modal was closed while expanding
+      if (animationState() === AnimationState.QR_EXPANDING) {
+        setAnimationState(AnimationState.QR_VISIBLE);
+      }
     }, 300);
   };
 
   const handleClose = () => {
+    if (animationState() === AnimationState.INITIAL) return;
+
     // Set closing state to trigger text animation
     setIsClosing(true);
 
     // Hide the modal immediately
     setAnimationState(AnimationState.INITIAL);
 
+    // The button is enabled again, so hand focus back from the dialog
+    buttonRef?.focus();
+
     // Wait for animation to complete before resetting state
     setTimeout(() => {
       // Reset closing state after animation completes
@@ -117,33 +226,67 @@ export const ZenobiaPaymentButton: Component<ZenobiaPaymentButtonProps> = (
         setIsClosing(false);
       }, 300); // Match the CSS transition duration
     }, 50);
+
+    props.onClose?.();
   };
 
+  props.ref?.({ open: handleClick, close: handleClose });
+
+  // Options that turn invalid while open close the modal
+  createEffect(() => {
+    if (!isValid()) handleClose();
+  });
+
+  // Reopen straight away when a payment was in flight before a reload
+  onMount(() => {
+    if (
+      props.persistTransfer &&
+      findResumableTransfer(props.amount, props.metadata)
+    ) {
+      handleClick();
+    }
+  });
+
   return (
-    <div class="zenobia-payment-container">
+    <div
+      class="zenobia-payment-container"
+      part="container"
+      style={theme.style()}
+      ref={setContainerRef}
+      dir={translator().dir}
+      lang={translator().locale}
+    >
       <style>{zenobiaPaymentStyles}</style>
 
       {/* Payment Button */}
       <button
+        ref={buttonRef}
         class="zenobia-payment-button"
+        part="button"
         classList={{
+          [props.buttonClass ?? ""]: !!props.buttonClass,
           "modal-open": animationState() !== AnimationState.INITIAL,
           closing: isClosing(),
         }}
-        style={{
-          "background-color": "black",
+        onClick={() => {
+          funnel.track("button_click");
+          handleClick();
         }}
-        onClick={handleClick}
-        disabled={animationState() !== AnimationState.INITIAL}
+        disabled={animationState() !== AnimationState.INITIAL || !isValid()}
+        aria-haspopup="dialog"
+        aria-expanded={animationState() !== AnimationState.INITIAL}
       >
         {animationState() !== AnimationState.INITIAL && !isClosing() ? (
-          props.buttonText || `Pay ${(props.amount / 100).toFixed(2)}`
+          props.buttonText ||
+          t("payAmount", { amount: formatPrice(props.amount) })
         ) : (
           <div class="button-text-container">
-            <div class="initial-text">{getSavingsText()}</div>
-            <div class="hover-text">
-              {props.buttonText || "Pay with Zenobia"}
+            <div class="initial-text">
+              {isValid()
+                ? getSavingsText()
+                : props.buttonText || t("payButton")}
             </div>
+            <div class="hover-text">{props.buttonText || t("payButton")}</div>
           </div>
         )}
       </button>
@@ -163,12 +306,37 @@ export const ZenobiaPaymentButton: Component<ZenobiaPaymentButtonProps> = (
           qrCodeSize={props.qrCodeSize}
           isTest={props.isTest}
           url={props.url}
+          createTransferOptions={props.createTransferOptions}
+          createTransfer={props.createTransfer}
           metadata={props.metadata}
           onSuccess={props.onSuccess}
           onError={props.onError}
           onStatusChange={props.onStatusChange}
           hideQrOnMobile={props.hideQrOnMobile}
           showCashback={props.showCashback}
+          qrPosition={props.qrPosition}
+          anchor={containerRef()}
+          onExpire={props.onExpire}
+          onScanChange={props.onScanChange}
+          onEvent={props.onEvent}
+          analytics={props.analytics}
+          onAbandon={props.onAbandon}
+          listenAfterClose={props.listenAfterClose}
+          confirmCloseWhenScanned={props.confirmCloseWhenScanned}
+          persistTransfer={props.persistTransfer}
+          reuseTransfer={props.reuseTransfer}
+          logger={props.logger}
+          debug={props.debug}
+          maxRegenerations={props.maxRegenerations}
+          autoCloseDelay={props.autoCloseDelay}
+          pollingUrl={props.pollingUrl}
+          pollingFallbackAfter={props.pollingFallbackAfter}
+          locale={props.locale}
+          messages={props.messages}
+          currency={props.currency}
+          closeOnEscape={props.closeOnEscape}
+          closeOnOverlayClick={props.closeOnOverlayClick}
+          theme={props.theme}
         />
       </Show>
     </div>
@@ -1,21 +1,48 @@
 import {
   Component,
+  JSX,
   createSignal,
   createEffect,
+  createMemo,
+  createUniqueId,
+  on,
   onCleanup,
+  untrack,
+  Match,
   Show,
+  Switch,
 } from "solid-js";
-import { ZenobiaClient } from "@zenobia/client";
 import QRCodeStyling from "qr-code-styling";
 import {
   TransferStatus,
   CreateTransferRequestResponse,
+  QrPosition,
 } from "./ZenobiaPaymentButton";
-
-interface ClientTransferStatus {
-  status: string;
-  [key: string]: any;
-}
+import { ZenobiaQrTooltip } from "./ZenobiaQrTooltip";
+import { getDeepActiveElement, trapFocus } from "./ZenobiaFocus";
+import { ZenobiaTheme, createTheme } from "./ZenobiaTheme";
+import { formatAmount, fromMinorUnits } from "./ZenobiaCurrency";
+import {
+  Translator,
+  ZenobiaMessages,
+  createTranslator,
+} from "./ZenobiaMessages";
+import {
+  ClientTransferStatus,
+  createTransferSession,
+} from "./ZenobiaTransferSession";
+import {
+  ZenobiaAnalyticsAdapter,
+  ZenobiaFunnelEvent,
+} from "./ZenobiaAnalytics";
+import { ZenobiaLogger, resolveLogger } from "./ZenobiaLogger";
+import { transferKey } from "./ZenobiaTransferStorage";
+import { ZenobiaError } from "./ZenobiaErrors";
+import { createOptionsCheck } from "./ZenobiaValidation";
+import type {
+  CreateTransferFn,
+  CreateTransferOptions,
+} from "./ZenobiaTransferRequest";
 
 interface ZenobiaPaymentModalProps {
   isOpen: boolean;
@@ -25,6 +52,8 @@ interface ZenobiaPaymentModalProps {
   qrCodeSize?: number;
   isTest?: boolean;
   url?: string;
+  createTransferOptions?: CreateTransferOptions; // Request options, timeout and retries for `url`
+  createTransfer?: CreateTransferFn; // Create the transfer yourself instead of posting to `url`
   metadata?: Record<string, any>;
   transferRequest?: CreateTransferRequestResponse;
   hideQrOnMobile?: boolean;
@@ -35,8 +64,74 @@ interface ZenobiaPaymentModalProps {
   ) => void;
   onError?: (error: Error) => void;
   onStatusChange?: (status: TransferStatus) => void;
+  qrPosition?: QrPosition; // ABOVE/BELOW render an anchored tooltip instead of a popup
+  anchor?: HTMLElement; // Element the tooltip is anchored to
+  onExpire?: (response: CreateTransferRequestResponse) => void;
+  onScanChange?: (scanned: boolean) => void;
+  onEvent?: (event: ZenobiaFunnelEvent) => void; // Funnel analytics events
+  analytics?: ZenobiaAnalyticsAdapter;
+  onAbandon?: (transferRequestId: string) => void; // Closed while the transfer was still pending
+  listenAfterClose?: boolean; // Keep listening after closing so a late payment still reaches onSuccess
+  confirmCloseWhenScanned?: boolean; // Ask before closing once the QR code is scanned (default true)
+  persistTransfer?: boolean; // Keep the active transfer in sessionStorage and resume it after a reload
+  reuseTransfer?: boolean; // Reopening shows the same transfer while it is valid and the checkout is unchanged
+  logger?: ZenobiaLogger; // Defaults to the console, silent in production builds
+  debug?: boolean; // Log everything to the console
+  maxRegenerations?: number; // New QR codes generated on expiry before showing the expired state
+  expiryWarningSeconds?: number; // Seconds left when the countdown turns into a warning
+  autoCloseDelay?: number; // Close automatically this many ms after a successful payment
+  pollingUrl?: string; // HTTP status endpoint used when the WebSocket keeps failing
+  pollingFallbackAfter?: number; // Failed reconnects before switching to polling
+  currency?: string; // ISO 4217 code, amounts are in its minor units (default USD)
+  locale?: string; // BCP 47 tag, defaults to the browser language
+  messages?: Partial<ZenobiaMessages>; // Overrides for the built-in copy
+  closeOnEscape?: boolean; // Defaults to true
+  closeOnOverlayClick?: boolean; // Defaults to true; clicks outside the tooltip in ABOVE/BELOW mode
+  theme?: ZenobiaTheme; // "light", "dark", "auto" or custom tokens
 }
 
+type ResultVariant = "success" | "failed" | "cancelled";
+
+const resultIcons: Record<ResultVariant, () => JSX.Element> = {
+  success: () => (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      stroke-width="2.5"
+    >
+      <path d="M5 12l5 5L19 7" />
+    </svg>
+  ),
+  failed: () => (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      stroke-width="2.5"
+    >
+      <path d="M18 6L6 18M6 6l12 12" />
+    </svg>
+  ),
+  cancelled: () => (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      stroke-width="2.5"
+    >
+      <circle cx="12" cy="12" r="9" />
+      <path d="M5.6 5.6l12.8 12.8" />
+    </svg>
+  ),
+};
+
+const DEFAULT_EXPIRY_WARNING_SECONDS = 60;
+
+// Format seconds as m:ss for the expiry countdown
+const formatCountdown = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
 // Utility function to detect mobile devices
 const isMobile = (): boolean => {
   if (typeof window === "undefined") return false;
@@ -67,115 +162,155 @@ export const ZenobiaPaymentModal: Component<ZenobiaPaymentModalProps> = (
   );
   const qrContainerRef = { current: null as HTMLDivElement | null };
   const qrMobileContainerRef = { current: null as HTMLDivElement | null };
-  const [transferStatus, setTransferStatus] = createSignal<TransferStatus>(
-    TransferStatus.PENDING
+  let dialogRef: HTMLDivElement | undefined;
+  const titleId = createUniqueId();
+  const subtitleId = createUniqueId();
+  const session = createTransferSession(props);
+  const translator = createMemo(() =>
+    createTranslator(props.locale, props.messages)
   );
-  const [error, setError] = createSignal<string | null>(null);
-  const [isConnected, setIsConnected] = createSignal(false);
-  const [zenobiaClient, setZenobiaClient] = createSignal<ZenobiaClient | null>(
-    null
-  );
-  const [transferRequest, setTransferRequest] =
-    createSignal<CreateTransferRequestResponse | null>(null);
-  const [isLoading, setIsLoading] = createSignal(false);
-  const [qrCodeUrl, setQrCodeUrl] = createSignal<string>("");
-  const [qrScanned, setQrScanned] = createSignal(false);
-  const [isReconnecting, setIsReconnecting] = createSignal(false);
-  const [websocketError, setWebsocketError] = createSignal<string | null>(null);
-
-  // Initialize WebSocket connection when modal opens
+  const t: Translator["t"] = (key, values) => translator().t(key, values);
+  const theme = createTheme(() => props.theme);
+  const formatPrice = (amount: number) =>
+    formatAmount(amount, props.currency, translator().locale);
+  // Invalid options are reported to onError at mount; no transfer is
+  // created and no amounts are shown until they are fixed
+  const isValid = createOptionsCheck(props);
+  const {
+    transferRequest,
+    error,
+    loading: isLoading,
+    qrUrl: qrCodeUrl,
+    scanned: qrScanned,
+    reconnecting: isReconnecting,
+    status: transferStatus,
+    timeRemaining,
+  } = session;
+
+  const isExpired = () => transferStatus() === TransferStatus.EXPIRED;
+
+  // Warn the shopper once the transfer is close to expiring
+  const isExpiringSoon = () => {
+    const remaining = timeRemaining();
+    return (
+      remaining !== null &&
+      remaining <=
+        (props.expiryWarningSeconds ?? DEFAULT_EXPIRY_WARNING_SECONDS)
+    );
+  };
+
+  const [confirmingClose, setConfirmingClose] = createSignal(false);
+
+  // Closes initiated from the modal itself, as opposed to autoCloseDelay.
+  // The shopper may be approving on their phone once the code is scanned,
+  // so ask first.
+  const closeByUser = () => {
+    if (
+      qrScanned() &&
+      transferStatus() === TransferStatus.PENDING &&
+      props.confirmCloseWhenScanned !== false &&
+      !confirmingClose()
+    ) {
+      setConfirmingClose(true);
+      return;
+    }
+
+    setConfirmingClose(false);
+    session.track("closed_by_user");
+    props.onClose();
+  };
+
+  // Drop the prompt once there is nothing left to confirm
   createEffect(() => {
-    if (props.isOpen && !zenobiaClient()) {
-      // Reset states for new session
-      setQrScanned(false);
-      setIsReconnecting(false);
-      setWebsocketError(null);
-      setError(null);
-
-      const client = new ZenobiaClient(props.isTest);
-      setZenobiaClient(client);
-
-      if (props.transferRequest) {
-        // If we have a transfer request, just listen to it
-        setTransferRequest(props.transferRequest);
-        client.listenToTransfer(
-          props.transferRequest.transferRequestId,
-          props.transferRequest.signature || "",
-          handleStatusUpdate,
-          handleWebSocketError,
-          handleConnectionChange,
-          handleScanUpdate
-        );
-      } else if (props.url) {
-        // If we have a URL, create a new transfer
-        setIsLoading(true);
-        setError(null);
-
-        const metadata = props.metadata || {
-          amount: props.amount,
-          statementItems: {
-            name: "Payment",
-            amount: props.amount,
-          },
-        };
-
-        client
-          .createTransfer(props.url, metadata)
-          .then((transfer) => {
-            setTransferRequest({
-              transferRequestId: transfer.transferRequestId,
-              merchantId: transfer.merchantId,
-              expiry: transfer.expiry,
-              signature: transfer.signature,
-            });
-
-            // Listen to the transfer status
-            client.listenToTransfer(
-              transfer.transferRequestId,
-              transfer.signature || "",
-              handleStatusUpdate,
-              handleWebSocketError,
-              handleConnectionChange,
-              handleScanUpdate
-            );
-          })
-          .catch((error) => {
-            setError(
-              error instanceof Error ? error.message : "An error occurred"
-            );
-            if (props.onError && error instanceof Error) {
-              props.onError(error);
-            }
-          })
-          .finally(() => {
-            setIsLoading(false);
-          });
+    if (!qrScanned() || transferStatus() !== TransferStatus.PENDING) {
+      setConfirmingClose(false);
+    }
+  });
+
+  // Called when the modal closes or unmounts: report an abandoned transfer
+  // and either stop listening or keep going in the background
+  const release = () =>
+    untrack(() => {
+      setConfirmingClose(false);
+      const transfer = transferRequest();
+      const pending = transfer && transferStatus() === TransferStatus.PENDING;
+
+      if (pending) {
+        props.onAbandon?.(transfer.transferRequestId);
+      }
+      if (pending && props.listenAfterClose) {
+        session.detach();
       } else {
-        setError("No URL provided for creating a new transfer");
+        session.cancel();
       }
+    });
+
+  // Start the session when the modal opens, release it when it closes
+  createEffect(() => {
+    if (props.isOpen && isValid()) {
+      session.track("modal_open");
+      session.start();
+      onCleanup(release);
     }
   });
 
-  // Generate QR code when transfer request is created
-  createEffect(() => {
-    if (transferRequest()?.transferRequestId) {
-      const transferIdNoDashes = transferRequest()!.transferRequestId.replace(
-        /-/g,
-        ""
-      );
-      const base64TransferId = btoa(transferIdNoDashes)
-        .replace(/\+/g, "-")
-        .replace(/\//g, "_")
-        .replace(/=+$/, "");
-      let qrString = `https://zenobiapay.com/clip?id=${base64TransferId}`;
-
-      if (props.isTest) {
-        qrString += "&type=test";
-      }
+  // A checkout change while open (coupon, shipping, tax) must not leave
+  // the QR code charging the old total, so start over with a new transfer.
+  // Once scanned the shopper may be approving it on their phone, so the
+  // change is reported and the transfer replaced only if the scan is undone.
+  const [checkoutChanged, setCheckoutChanged] = createSignal(false);
 
-      // Store the QR code URL for the mobile button
-      setQrCodeUrl(qrString);
+  const replaceTransfer = () => {
+    setCheckoutChanged(false);
+    resolveLogger(props).debug(
+      "Amount or metadata changed, creating a new transfer"
+    );
+    session.track("transfer_replaced");
+    session.retry();
+  };
 
+  createEffect(
+    on(
+      () => transferKey(props.amount, props.metadata),
+      () =>
+        untrack(() => {
+          const ownTransfer =
+            !props.transferRequest && (props.url || props.createTransfer);
+          if (
+            !props.isOpen ||
+            !ownTransfer ||
+            transferStatus() !== TransferStatus.PENDING
+          ) {
+            return;
+          }
+          if (!qrScanned()) {
+            replaceTransfer();
+            return;
+          }
+
+          setCheckoutChanged(true);
+          const message =
+            "Amount or metadata changed after the QR code was scanned; keeping the transfer for the previous checkout";
+          resolveLogger(props).warn(message);
+          props.onError?.(new ZenobiaError("checkout_changed", message));
+        }),
+      { defer: true }
+    )
+  );
+
+  createEffect(() => {
+    if (!checkoutChanged()) return;
+    if (transferStatus() !== TransferStatus.PENDING || !props.isOpen) {
+      setCheckoutChanged(false);
+    } else if (!qrScanned()) {
+      untrack(replaceTransfer);
+    }
+  });
+
+  // Generate QR code when transfer request is created
+  createEffect(() => {
+    const qrString = qrCodeUrl();
+    if (qrString) {
       // Use a slightly larger size for the QR code to match the new design
       const containerSize = props.qrCodeSize || 220;
       const qrSize = containerSize; // No reduction, QR fills the container
@@ -186,11 +321,11 @@ export const ZenobiaPaymentModal: Component<ZenobiaPaymentModalProps> = (
         data: qrString,
         image: undefined,
         dotsOptions: {
-          color: "#000000",
+          color: theme.tokens().qrDots,
           type: "dots",
         },
         backgroundOptions: {
-          color: "#ffffff",
+          color: theme.tokens().qrBackground,
         },
         cornersSquareOptions: {
           type: "extra-rounded",
@@ -208,6 +343,7 @@ export const ZenobiaPaymentModal: Component<ZenobiaPaymentModalProps> = (
   });
 
   // Handle QR code appending to containers
+  let trackedQrUrl = "";
   createEffect(() => {
     const qrCode = qrCodeObject();
     // Defer to next tick to ensure DOM is ready
@@ -224,135 +360,15 @@ export const ZenobiaPaymentModal: Component<ZenobiaPaymentModalProps> = (
           qrMobileContainerRef.current.innerHTML = "";
           qrCode.append(qrMobileContainerRef.current);
         }
-      }
-    }, 0);
-  });
 
-  // Handle WebSocket status update
-  const handleStatusUpdate = (status: ClientTransferStatus) => {
-    console.log("Received status update:", status);
-
-    // Convert API status to our enum
-    let currentStatus: TransferStatus;
-    switch (status.status) {
-      case "SETTLED":
-      case "PAID":
-        currentStatus = TransferStatus.PAID;
-        if (props.onSuccess && transferRequest()) {
-          props.onSuccess(transferRequest()!, status);
-        }
-        const client = zenobiaClient();
-        if (client) {
-          client.disconnect();
-          setZenobiaClient(null);
-        }
-        break;
-      case "FAILED":
-        currentStatus = TransferStatus.FAILED;
-        const failedClient = zenobiaClient();
-        if (failedClient) {
-          failedClient.disconnect();
-          setZenobiaClient(null);
-        }
-        break;
-      case "CANCELLED":
-        currentStatus = TransferStatus.CANCELLED;
-        const cancelledClient = zenobiaClient();
-        if (cancelledClient) {
-          cancelledClient.disconnect();
-          setZenobiaClient(null);
+        // Theme changes redraw the same code; only report new ones
+        const qrString = qrCodeUrl();
+        if (qrString && qrString !== trackedQrUrl) {
+          trackedQrUrl = qrString;
+          session.track("qr_rendered");
         }
-        break;
-      default:
-        currentStatus = TransferStatus.PENDING;
-    }
-
-    setTransferStatus(currentStatus);
-
-    if (props.onStatusChange) {
-      props.onStatusChange(currentStatus);
-    }
-  };
-
-  // Handle WebSocket error
-  const handleWebSocketError = (errorMsg: string) => {
-    console.error("WebSocket error:", errorMsg);
-
-    // Check if this is a disconnection error (common WebSocket disconnection messages)
-    const isDisconnectionError =
-      errorMsg.toLowerCase().includes("disconnect") ||
-      errorMsg.toLowerCase().includes("connection lost") ||
-      errorMsg.toLowerCase().includes("network error") ||
-      errorMsg.toLowerCase().includes("timeout");
-
-    if (isDisconnectionError) {
-      // For disconnection errors, show reconnecting state instead of error
-      setWebsocketError(errorMsg);
-      setIsReconnecting(true);
-    } else {
-      // For other errors, set the error but don't close the modal
-      setError(errorMsg);
-      if (props.onError) {
-        props.onError(new Error(errorMsg));
       }
-    }
-  };
-
-  // Handle WebSocket connection status change
-  const handleConnectionChange = (connected: boolean) => {
-    console.log(
-      "WebSocket connection status:",
-      connected ? "Connected" : "Disconnected"
-    );
-    setIsConnected(connected);
-
-    if (connected) {
-      // Connection restored, clear reconnecting state
-      setIsReconnecting(false);
-      setWebsocketError(null);
-    } else {
-      // Connection lost, set reconnecting state
-      setIsReconnecting(true);
-    }
-  };
-
-  // Handle scan update
-  const handleScanUpdate = (scanData: {
-    type: string;
-    scanType: string;
-    transferId: string;
-    timestamp: number;
-  }) => {
-    console.log("Scan update received:", scanData.scanType);
-    if (scanData.scanType === "scanned") {
-      setQrScanned(true);
-    } else if (scanData.scanType === "unscanned") {
-      setQrScanned(false);
-    }
-  };
-
-  // Cleanup on component unmount
-  onCleanup(() => {
-    const client = zenobiaClient();
-    if (client) {
-      client.disconnect();
-    }
-  });
-
-  // Cleanup when modal closes
-  createEffect(() => {
-    if (!props.isOpen) {
-      const client = zenobiaClient();
-      if (client) {
-        client.disconnect();
-        setZenobiaClient(null);
-      }
-      // Reset states
-      setQrScanned(false);
-      setIsReconnecting(false);
-      setWebsocketError(null);
-      setError(null);
-    }
+    }, 0);
   });
 
   // Calculate discount amount or default to amount/100 if not provided
@@ -366,353 +382,574 @@ export const ZenobiaPaymentModal: Component<ZenobiaPaymentModalProps> = (
     if (!props.showCashback) return null;
 
     const discount = discountAmount();
-    if (discount < 1000) {
-      // Less than $10 (in cents)
+    if (fromMinorUnits(discount, props.currency) < 10) {
+      // Less than 10 in major units (e.g. $10)
       const percentage = ((discount / props.amount) * 100).toFixed(0);
-      return `✨ ${percentage}% cashback applied!`;
+      return t("cashbackAppliedPercent", {
+        percentage,
+        count: Number(percentage),
+      });
     } else {
-      return `✨ Applied $${(discount / 100).toFixed(2)} cashback!`;
+      return t("cashbackAppliedAmount", {
+        amount: formatPrice(discount),
+      });
     }
   };
 
-  return (
-    <Show when={props.isOpen}>
-      <div class="zenobia-qr-popup-overlay visible">
-        <div class="zenobia-qr-popup-content">
-          <button class="zenobia-qr-close" onClick={props.onClose}>
-            <svg
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              stroke-width="2"
+  // Close the modal a little while after a successful payment, if requested
+  createEffect(() => {
+    if (
+      transferStatus() === TransferStatus.PAID &&
+      props.autoCloseDelay !== undefined
+    ) {
+      const timer = setTimeout(() => props.onClose(), props.autoCloseDelay);
+      onCleanup(() => clearTimeout(timer));
+    }
+  });
+
+  // Terminal screen shown once the transfer is paid, failed or cancelled
+  const renderResult = (
+    variant: ResultVariant,
+    title: string,
+    message: string,
+    canRetry = false
+  ) => (
+    <div class={`zenobia-result ${variant}`} part="result">
+      <div class="zenobia-result-icon">{resultIcons[variant]()}</div>
+      <h4 class="zenobia-result-title">{title}</h4>
+      <p class="zenobia-result-message">{message}</p>
+      <Show when={canRetry && (props.url || props.createTransfer)}>
+        <button
+          class="zenobia-result-action"
+          part="result-action"
+          onClick={() => session.retry()}
+        >
+          {t("tryAgain")}
+        </button>
+      </Show>
+    </div>
+  );
+
+  // Shown instead of closing while the shopper is mid-approval
+  const renderConfirmClose = () => (
+    <div class="zenobia-confirm-close" part="confirm-close">
+      <h4 class="zenobia-result-title">{t("confirmCloseTitle")}</h4>
+      <p class="zenobia-result-message">{t("confirmCloseMessage")}</p>
+      <div class="zenobia-confirm-actions">
+        <button
+          class="zenobia-result-action"
+          part="result-action"
+          onClick={() => setConfirmingClose(false)}
+        >
+          {t("keepWaiting")}
+        </button>
+        <button class="zenobia-confirm-dismiss" onClick={closeByUser}>
+          {t("closeAnyway")}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderExpiredOverlay = () => (
+    <Show when={isExpired()}>
+      <div class="zenobia-qr-expired">
+        <span>{t("expired")}</span>
+        <button class="zenobia-qr-refresh" onClick={() => session.retry()}>
+          {t("refresh")}
+        </button>
+      </div>
+    </Show>
+  );
+
+  const isTooltip = () =>
+    props.qrPosition === QrPosition.ABOVE ||
+    props.qrPosition === QrPosition.BELOW;
+
+  // Status changes read out by screen readers through the live region
+  const announcement = () => {
+    switch (transferStatus()) {
+      case TransferStatus.PAID:
+        return t("successTitle");
+      case TransferStatus.FAILED:
+        return t("failedTitle");
+      case TransferStatus.CANCELLED:
+        return t("cancelledTitle");
+      case TransferStatus.EXPIRED:
+        return t("paymentExpired");
+    }
+    if (isReconnecting()) return t("reconnecting");
+    if (qrScanned()) return t("completeOnPhone");
+    return "";
+  };
+
+  // Move focus into the dialog on open, close on Escape and hand focus back
+  // to whatever had it before once the dialog closes
+  createEffect(() => {
+    if (!props.isOpen) return;
+
+    const previouslyFocused = getDeepActiveElement();
+    const frame = requestAnimationFrame(() => dialogRef?.focus());
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && props.closeOnEscape !== false) {
+        event.preventDefault();
+        // Escape backs out of the confirmation instead of confirming it
+        if (confirmingClose()) {
+          setConfirmingClose(false);
+        } else {
+          closeByUser();
+        }
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+
+    onCleanup(() => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener("keydown", handleKeyDown);
+      if (previouslyFocused?.isConnected) {
+        previouslyFocused.focus();
+      }
+    });
+  });
+
+  // QR code, amount and connection status while waiting for payment
+  const renderPending = () => (
+    <>
+      <Show
+        when={isMobile() && qrCodeUrl() !== "" && !props.hideQrOnMobile}
+        fallback={
+          <Show
+            when={qrCodeObject() && transferRequest()}
+            fallback={
+              <div
+                class="qr-code-container"
+                part="qr"
+                style={{
+                  width: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                  height: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                  display: "flex",
+                  "justify-content": "center",
+                  "align-items": "center",
+                }}
+              >
+                <div
+                  class="zenobia-qr-placeholder"
+                  style={{
+                    width: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                    height: props.qrCodeSize
+                      ? `${props.qrCodeSize}px`
+                      : "220px",
+                  }}
+                />
+              </div>
+            }
+          >
+            <div
+              class="qr-code-container"
+              part="qr"
+              id="qrcode-container"
+              ref={(el) => {
+                qrContainerRef.current = el;
+              }}
+              style={{
+                width: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                height: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                display: "flex",
+                "justify-content": "center",
+                "align-items": "center",
+                position: "relative",
+              }}
             >
-              <path d="M18 6L6 18M6 6l12 12" />
-            </svg>
-          </button>
-          <div class="modal-header">
-            <div class="header-content">
-              <h3>Pay by bank with Zenobia</h3>
-              <p class="subtitle">Scan to complete your purchase</p>
-              <Show when={props.isTest}>
-                <div class="test-mode-badge" tabindex="0">
-                  <svg
-                    width="16"
-                    height="16"
-                    viewBox="0 0 20 20"
-                    fill="none"
-                    xmlns="http://www.w3.org/2000/svg"
-                  >
-                    <circle
-                      cx="10"
-                      cy="10"
-                      r="9"
-                      stroke="#b45309"
-                      stroke-width="2"
-                      fill="#fef3c7"
-                    />
-                    <text
-                      x="10"
-                      y="15"
-                      text-anchor="middle"
-                      font-size="12"
-                      fill="#b45309"
-                      font-family="Arial"
-                      font-weight="bold"
-                    >
-                      i
-                    </text>
-                  </svg>
-                  <span class="test-mode-badge-text">Test Mode</span>
-                  <div class="test-mode-tooltip">
-                    Test Mode: No real money will be moved.
-                  </div>
+              <Show when={qrScanned()}>
+                <div
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    background:
+                      "var(--zenobia-qr-overlay, rgba(0, 0, 0, 0.95))",
+                    display: "flex",
+                    "justify-content": "center",
+                    "align-items": "center",
+                    "border-radius": "8px",
+                    color: "var(--zenobia-qr-overlay-text, white)",
+                    "font-size": "16px",
+                    "font-weight": "500",
+                    "text-align": "center",
+                    padding: "20px",
+                    "z-index": "10",
+                  }}
+                >
+                  {t("completeOnPhone")}
                 </div>
               </Show>
+              <Show when={isReconnecting()}>
+                <div
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    background: "var(--zenobia-qr-overlay, rgba(0, 0, 0, 0.9))",
+                    display: "flex",
+                    "justify-content": "center",
+                    "align-items": "center",
+                    "border-radius": "8px",
+                    color: "var(--zenobia-qr-overlay-text, white)",
+                    "font-size": "16px",
+                    "font-weight": "500",
+                    "text-align": "center",
+                    padding: "20px",
+                    "z-index": "10",
+                  }}
+                >
+                  {t("reconnectingOverlay")}
+                </div>
+              </Show>
+              {renderExpiredOverlay()}
             </div>
+          </Show>
+        }
+      >
+        <div style={{ "text-align": "center", margin: "20px 0" }}>
+          {/* Mobile button */}
+          <div
+            class="mobile-button-container"
+            style={{ "text-align": "center", margin: "20px 0" }}
+          >
+            <button
+              class="mobile-button"
+              part="mobile-button"
+              onClick={() => window.open(qrCodeUrl(), "_blank")}
+              title={t("openAppTitle")}
+              style={{
+                "background-color": "var(--zenobia-primary, #000)",
+                color: "var(--zenobia-on-primary, #fff)",
+                border: "none",
+                padding: "16px 24px",
+                "border-radius": "8px",
+                "font-size": "16px",
+                "font-weight": "500",
+                cursor: "pointer",
+                display: "flex",
+                "align-items": "center",
+                gap: "8px",
+                margin: "0 auto",
+                transition: "background-color 0.2s ease",
+              }}
+            >
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                stroke-width="2"
+                stroke-linecap="round"
+                stroke-linejoin="round"
+              >
+                <rect x="5" y="2" width="14" height="20" rx="2" ry="2" />
+                <line x1="12" y1="18" x2="12" y2="18" />
+              </svg>
+              <span>{t("openApp")}</span>
+            </button>
           </div>
-          <div class="modal-body">
-            <Show
-              when={isMobile() && qrCodeUrl() !== "" && !props.hideQrOnMobile}
-              fallback={
-                <Show
-                  when={qrCodeObject() && transferRequest()}
-                  fallback={
-                    <div
-                      class="qr-code-container"
-                      style={{
-                        width: props.qrCodeSize
-                          ? `${props.qrCodeSize}px`
-                          : "220px",
-                        height: props.qrCodeSize
-                          ? `${props.qrCodeSize}px`
-                          : "220px",
-                        display: "flex",
-                        "justify-content": "center",
-                        "align-items": "center",
-                      }}
-                    >
-                      <div
-                        class="zenobia-qr-placeholder"
-                        style={{
-                          width: props.qrCodeSize
-                            ? `${props.qrCodeSize}px`
-                            : "220px",
-                          height: props.qrCodeSize
-                            ? `${props.qrCodeSize}px`
-                            : "220px",
-                        }}
-                      />
-                    </div>
+
+          {/* QR Code for mobile */}
+          <Show
+            when={qrCodeObject() && transferRequest()}
+            fallback={
+              <div
+                class="qr-code-container"
+                part="qr"
+                style={{
+                  width: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                  height: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                  display: "flex",
+                  "justify-content": "center",
+                  "align-items": "center",
+                  margin: "20px auto",
+                }}
+              >
+                <div
+                  class="zenobia-qr-placeholder"
+                  style={{
+                    width: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                    height: props.qrCodeSize
+                      ? `${props.qrCodeSize}px`
+                      : "220px",
+                  }}
+                />
+              </div>
+            }
+          >
+            <div
+              class="qr-code-container"
+              part="qr"
+              id="qrcode-container-mobile"
+              ref={(el) => {
+                if (el) {
+                  const qrCode = qrCodeObject();
+                  if (qrCode) {
+                    // Clear any existing content
+                    el.innerHTML = "";
+                    qrCode.append(el);
                   }
-                >
-                  <div
-                    class="qr-code-container"
-                    id="qrcode-container"
-                    ref={(el) => {
-                      qrContainerRef.current = el;
-                    }}
-                    style={{
-                      width: props.qrCodeSize
-                        ? `${props.qrCodeSize}px`
-                        : "220px",
-                      height: props.qrCodeSize
-                        ? `${props.qrCodeSize}px`
-                        : "220px",
-                      display: "flex",
-                      "justify-content": "center",
-                      "align-items": "center",
-                      position: "relative",
-                    }}
-                  >
-                    <Show when={qrScanned()}>
-                      <div
-                        style={{
-                          position: "absolute",
-                          top: 0,
-                          left: 0,
-                          right: 0,
-                          bottom: 0,
-                          background: "rgba(0, 0, 0, 0.95)",
-                          display: "flex",
-                          "justify-content": "center",
-                          "align-items": "center",
-                          "border-radius": "8px",
-                          color: "white",
-                          "font-size": "16px",
-                          "font-weight": "500",
-                          "text-align": "center",
-                          padding: "20px",
-                          "z-index": "10",
-                        }}
-                      >
-                        Complete on your phone
-                      </div>
-                    </Show>
-                    <Show when={isReconnecting()}>
-                      <div
-                        style={{
-                          position: "absolute",
-                          top: 0,
-                          left: 0,
-                          right: 0,
-                          bottom: 0,
-                          background: "rgba(0, 0, 0, 0.9)",
-                          display: "flex",
-                          "justify-content": "center",
-                          "align-items": "center",
-                          "border-radius": "8px",
-                          color: "white",
-                          "font-size": "16px",
-                          "font-weight": "500",
-                          "text-align": "center",
-                          padding: "20px",
-                          "z-index": "10",
-                        }}
-                      >
-                        Attempting to reconnect...
-                      </div>
-                    </Show>
-                  </div>
-                </Show>
-              }
+                }
+              }}
+              style={{
+                width: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                height: props.qrCodeSize ? `${props.qrCodeSize}px` : "220px",
+                display: "flex",
+                "justify-content": "center",
+                "align-items": "center",
+                margin: "20px auto",
+                position: "relative",
+              }}
             >
-              <div style={{ "text-align": "center", margin: "20px 0" }}>
-                {/* Mobile button */}
+              <Show when={qrScanned()}>
+                <div
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    background:
+                      "var(--zenobia-qr-overlay, rgba(0, 0, 0, 0.95))",
+                    display: "flex",
+                    "justify-content": "center",
+                    "align-items": "center",
+                    "border-radius": "8px",
+                    color: "var(--zenobia-qr-overlay-text, white)",
+                    "font-size": "16px",
+                    "font-weight": "500",
+                    "text-align": "center",
+                    padding: "20px",
+                    "z-index": "10",
+                  }}
+                >
+                  {t("completeOnPhone")}
+                </div>
+              </Show>
+              <Show when={isReconnecting()}>
                 <div
-                  class="mobile-button-container"
-                  style={{ "text-align": "center", margin: "20px 0" }}
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    background: "var(--zenobia-qr-overlay, rgba(0, 0, 0, 0.9))",
+                    display: "flex",
+                    "justify-content": "center",
+                    "align-items": "center",
+                    "border-radius": "8px",
+                    color: "var(--zenobia-qr-overlay-text, white)",
+                    "font-size": "16px",
+                    "font-weight": "500",
+                    "text-align": "center",
+                    padding: "20px",
+                    "z-index": "10",
+                  }}
                 >
-                  <button
-                    class="mobile-button"
-                    onClick={() => window.open(qrCodeUrl(), "_blank")}
-                    title="Open on mobile device"
-                    style={{
-                      "background-color": "#000",
-                      color: "#fff",
-                      border: "none",
-                      padding: "16px 24px",
-                      "border-radius": "8px",
-                      "font-size": "16px",
-                      "font-weight": "500",
-                      cursor: "pointer",
-                      display: "flex",
-                      "align-items": "center",
-                      gap: "8px",
-                      margin: "0 auto",
-                      transition: "background-color 0.2s ease",
-                    }}
-                  >
-                    <svg
-                      width="20"
-                      height="20"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      stroke-width="2"
-                      stroke-linecap="round"
-                      stroke-linejoin="round"
-                    >
-                      <rect x="5" y="2" width="14" height="20" rx="2" ry="2" />
-                      <line x1="12" y1="18" x2="12" y2="18" />
-                    </svg>
-                    <span>Open app to continue</span>
-                  </button>
+                  {t("reconnectingOverlay")}
                 </div>
+              </Show>
+              {renderExpiredOverlay()}
+            </div>
+          </Show>
+        </div>
+      </Show>
+      <div class="payment-amount" part="amount">
+        {formatPrice(props.amount)}
+      </div>
+      <Show when={cashbackMessage()}>
+        <div class="savings-badge" part="cashback">
+          {cashbackMessage()}
+        </div>
+      </Show>
+      <div class="payment-status" part="status">
+        <Show when={!isExpired()}>
+          <div class="spinner"></div>
+        </Show>
+        <div class="payment-instructions">
+          {isExpired()
+            ? t("paymentExpired")
+            : isLoading()
+            ? t("preparingPayment")
+            : !transferRequest()
+            ? t("creatingPayment")
+            : isReconnecting()
+            ? t("reconnecting")
+            : t("waitingForPayment")}
+        </div>
+      </div>
+      <Show when={!isExpired() && timeRemaining() !== null}>
+        <div class="zenobia-expiry" classList={{ warning: isExpiringSoon() }}>
+          {isExpiringSoon()
+            ? t("expiringSoon", { time: formatCountdown(timeRemaining()!) })
+            : t("expiresIn", { time: formatCountdown(timeRemaining()!) })}
+        </div>
+      </Show>
+      <Show when={error() && !isReconnecting()}>
+        <div class="zenobia-error">{error()}</div>
+      </Show>
+    </>
+  );
 
-                {/* QR Code for mobile */}
-                <Show
-                  when={qrCodeObject() && transferRequest()}
-                  fallback={
-                    <div
-                      class="qr-code-container"
-                      style={{
-                        width: props.qrCodeSize
-                          ? `${props.qrCodeSize}px`
-                          : "220px",
-                        height: props.qrCodeSize
-                          ? `${props.qrCodeSize}px`
-                          : "220px",
-                        display: "flex",
-                        "justify-content": "center",
-                        "align-items": "center",
-                        margin: "20px auto",
-                      }}
-                    >
-                      <div
-                        class="zenobia-qr-placeholder"
-                        style={{
-                          width: props.qrCodeSize
-                            ? `${props.qrCodeSize}px`
-                            : "220px",
-                          height: props.qrCodeSize
-                            ? `${props.qrCodeSize}px`
-                            : "220px",
-                        }}
-                      />
-                    </div>
-                  }
+  // Shared by the popup and the inline tooltip
+  const renderContent = () => (
+    <div
+      ref={dialogRef}
+      class="zenobia-dialog"
+      style={theme.style()}
+      role="dialog"
+      aria-modal={isTooltip() ? "false" : "true"}
+      aria-labelledby={titleId}
+      aria-describedby={subtitleId}
+      tabindex="-1"
+      onKeyDown={(event) => {
+        if (!isTooltip()) trapFocus(event, dialogRef);
+      }}
+    >
+      <button
+        class="zenobia-qr-close"
+        part="close-button"
+        onClick={closeByUser}
+        aria-label={t("close")}
+      >
+        <svg
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          stroke-width="2"
+          aria-hidden="true"
+        >
+          <path d="M18 6L6 18M6 6l12 12" />
+        </svg>
+      </button>
+      <div class="modal-header">
+        <div class="header-content">
+          <h3 id={titleId} part="title">
+            {t("modalTitle")}
+          </h3>
+          <p class="subtitle" id={subtitleId} part="subtitle">
+            {t("modalSubtitle")}
+          </p>
+          <Show when={props.isTest}>
+            <div class="test-mode-badge" tabindex="0">
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 20 20"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <circle
+                  cx="10"
+                  cy="10"
+                  r="9"
+                  stroke="#b45309"
+                  stroke-width="2"
+                  fill="#fef3c7"
+                />
+                <text
+                  x="10"
+                  y="15"
+                  text-anchor="middle"
+                  font-size="12"
+                  fill="#b45309"
+                  font-family="Arial"
+                  font-weight="bold"
                 >
-                  <div
-                    class="qr-code-container"
-                    id="qrcode-container-mobile"
-                    ref={(el) => {
-                      if (el) {
-                        const qrCode = qrCodeObject();
-                        if (qrCode) {
-                          // Clear any existing content
-                          el.innerHTML = "";
-                          qrCode.append(el);
-                        }
-                      }
-                    }}
-                    style={{
-                      width: props.qrCodeSize
-                        ? `${props.qrCodeSize}px`
-                        : "220px",
-                      height: props.qrCodeSize
-                        ? `${props.qrCodeSize}px`
-                        : "220px",
-                      display: "flex",
-                      "justify-content": "center",
-                      "align-items": "center",
-                      margin: "20px auto",
-                      position: "relative",
-                    }}
-                  >
-                    <Show when={qrScanned()}>
-                      <div
-                        style={{
-                          position: "absolute",
-                          top: 0,
-                          left: 0,
-                          right: 0,
-                          bottom: 0,
-                          background: "rgba(0, 0, 0, 0.95)",
-                          display: "flex",
-                          "justify-content": "center",
-                          "align-items": "center",
-                          "border-radius": "8px",
-                          color: "white",
-                          "font-size": "16px",
-                          "font-weight": "500",
-                          "text-align": "center",
-                          padding: "20px",
-                          "z-index": "10",
-                        }}
-                      >
-                        Complete on your phone
-                      </div>
-                    </Show>
-                    <Show when={isReconnecting()}>
-                      <div
-                        style={{
-                          position: "absolute",
-                          top: 0,
-                          left: 0,
-                          right: 0,
-                          bottom: 0,
-                          background: "rgba(0, 0, 0, 0.9)",
-                          display: "flex",
-                          "justify-content": "center",
-                          "align-items": "center",
-                          "border-radius": "8px",
-                          color: "white",
-                          "font-size": "16px",
-                          "font-weight": "500",
-                          "text-align": "center",
-                          padding: "20px",
-                          "z-index": "10",
-                        }}
-                      >
-                        Attempting to reconnect...
-                      </div>
-                    </Show>
-                  </div>
-                </Show>
-              </div>
-            </Show>
-            <div class="payment-amount">${(props.amount / 100).toFixed(2)}</div>
-            <Show when={cashbackMessage()}>
-              <div class="savings-badge">{cashbackMessage()}</div>
-            </Show>
-            <div class="payment-status">
-              <div class="spinner"></div>
-              <div class="payment-instructions">
-                {isLoading()
-                  ? "Preparing payment..."
-                  : !transferRequest()
-                  ? "Creating payment..."
-                  : isReconnecting()
-                  ? "Reconnecting..."
-                  : "Waiting for payment"}
-              </div>
+                  i
+                </text>
+              </svg>
+              <span class="test-mode-badge-text">{t("testModeBadge")}</span>
+              <div class="test-mode-tooltip">{t("testModeTooltip")}</div>
             </div>
-            <Show when={error() && !isReconnecting()}>
-              <div class="zenobia-error">{error()}</div>
-            </Show>
-          </div>
+          </Show>
         </div>
       </div>
+      <div class="modal-body">
+        <Switch fallback={renderPending()}>
+          <Match when={!isValid()}>
+            <div class="zenobia-error">{t("failedMessage")}</div>
+          </Match>
+          <Match when={confirmingClose()}>{renderConfirmClose()}</Match>
+          <Match when={transferStatus() === TransferStatus.PAID}>
+            {renderResult(
+              "success",
+              t("successTitle"),
+              t("successMessage", {
+                amount: formatPrice(props.amount),
+              })
+            )}
+          </Match>
+          <Match when={transferStatus() === TransferStatus.FAILED}>
+            {renderResult("failed", t("failedTitle"), t("failedMessage"), true)}
+          </Match>
+          <Match when={transferStatus() === TransferStatus.CANCELLED}>
+            {renderResult(
+              "cancelled",
+              t("cancelledTitle"),
+              t("cancelledMessage"),
+              true
+            )}
+          </Match>
+        </Switch>
+      </div>
+      <div class="zenobia-sr-only" role="status" aria-live="polite">
+        {announcement()}
+      </div>
+    </div>
+  );
+
+  return (
+    <Show when={props.isOpen}>
+      <Show
+        when={isTooltip()}
+        fallback={
+          <div
+            class="zenobia-qr-popup-overlay visible"
+            part="overlay"
+            style={theme.style()}
+            onClick={(event) => {
+              if (
+                event.target === event.currentTarget &&
+                props.closeOnOverlayClick !== false
+              ) {
+                closeByUser();
+              }
+            }}
+          >
+            <div
+              class="zenobia-qr-popup-content"
+              part="dialog"
+              dir={translator().dir}
+              lang={translator().locale}
+            >
+              {renderContent()}
+            </div>
+          </div>
+        }
+      >
+        <ZenobiaQrTooltip
+          anchor={props.anchor}
+          placement={props.qrPosition === QrPosition.ABOVE ? "above" : "below"}
+          dir={translator().dir}
+          lang={translator().locale}
+          onDismiss={
+            props.closeOnOverlayClick !== false ? closeByUser : undefined
+          }
+        >
+          {renderContent()}
+        </ZenobiaQrTooltip>
+      </Show>
     </Show>
   );
 };
@@ -11,7 +11,7 @@ export const zenobiaPaymentStyles = `
     left: 0;
     right: 0;
     bottom: 0;
-    background-color: rgba(0, 0, 0, 0.5);
+    background-color: var(--zenobia-overlay, rgba(0, 0, 0, 0.5));
     display: flex;
     align-items: center;
     justify-content: center;
@@ -30,7 +30,7 @@ export const zenobiaPaymentStyles = `
     border-radius: 24px;
     padding: 0 24px;
     transition: all 0.3s cubic-bezier(0.4, 0, 0.2, 1);
-    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
+    font-family: var(--zenobia-font-family, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif);
     font-size: 16px;
     font-weight: 500;
     border: none;
@@ -56,7 +56,7 @@ export const zenobiaPaymentStyles = `
     top: 0;
     width: 100%;
     height: 100%;
-    background: linear-gradient(to right, coral, orange);
+    background: linear-gradient(to right, var(--zenobia-accent-start, coral), var(--zenobia-accent-end, orange));
     z-index: -1;
     transition: left 0.3s ease;
   }
@@ -79,14 +79,15 @@ export const zenobiaPaymentStyles = `
 
   .zenobia-payment-button:disabled.modal-open {
     cursor: not-allowed;
-    color: white;
+    color: var(--zenobia-on-primary, white);
     box-shadow: none;
     transform: none;
   }
 
-  .zenobia-payment-button:not(:disabled) {
-    background-color: black;
-    color: white;
+  /* :where() keeps specificity low so buttonClass styles can override */
+  .zenobia-payment-button:where(:not(:disabled)) {
+    background-color: var(--zenobia-primary, black);
+    color: var(--zenobia-on-primary, white);
   }
 
   .zenobia-payment-button:not(:disabled):hover:not(.modal-open)::before {
@@ -191,33 +192,33 @@ export const zenobiaPaymentStyles = `
     transform: translateX(-50%) rotate(45deg);
     width: 16px;
     height: 16px;
-    background-color: white;
-    border-top: 1px solid #e5e7eb;
-    border-left: 1px solid #e5e7eb;
+    background-color: var(--zenobia-surface, white);
+    border-top: 1px solid var(--zenobia-border, #e5e7eb);
+    border-left: 1px solid var(--zenobia-border, #e5e7eb);
     z-index: 4;
   }
 
   .zenobia-qr-tooltip.below .zenobia-qr-caret {
     top: -8px;
-    border-top: 1px solid #e5e7eb;
-    border-left: 1px solid #e5e7eb;
+    border-top: 1px solid var(--zenobia-border, #e5e7eb);
+    border-left: 1px solid var(--zenobia-border, #e5e7eb);
     border-bottom: none;
     border-right: none;
   }
 
   .zenobia-qr-tooltip.above .zenobia-qr-caret {
     bottom: -8px;
-    border-bottom: 1px solid #e5e7eb;
-    border-right: 1px solid #e5e7eb;
+    border-bottom: 1px solid var(--zenobia-border, #e5e7eb);
+    border-right: 1px solid var(--zenobia-border, #e5e7eb);
     border-top: none;
     border-left: none;
   }
 
   .zenobia-qr-content {
     position: relative;
-    background-color: white;
+    background-color: var(--zenobia-surface, white);
     border-radius: 16px;
-    border: 1px solid #e5e7eb;
+    border: 1px solid var(--zenobia-border, #e5e7eb);
     box-shadow: 0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04);
     padding: 24px;
     z-index: 3;
@@ -230,7 +231,7 @@ export const zenobiaPaymentStyles = `
     left: 0;
     width: 100%;
     height: 100%;
-    background-color: rgba(0, 0, 0, 0.5);
+    background-color: var(--zenobia-overlay, rgba(0, 0, 0, 0.5));
     display: flex;
     align-items: center;
     justify-content: center;
@@ -242,7 +243,7 @@ export const zenobiaPaymentStyles = `
     opacity: 1;
   }
   .zenobia-qr-popup-content {
-    background-color: #ffffff;
+    background-color: var(--zenobia-surface, #ffffff);
     border-radius: 24px;
     padding: 32px;
     box-shadow: 0 20px 25px rgba(0, 0, 0, 0.15);
@@ -255,8 +256,8 @@ export const zenobiaPaymentStyles = `
     display: block;
     position: relative;
     padding: 0 0 24px;
-    background: #ffffff;
-    border-bottom: 1px solid #f0f0f0;
+    background: var(--zenobia-surface, #ffffff);
+    border-bottom: 1px solid var(--zenobia-border, #f0f0f0);
   }
 
   .header-title-row {
@@ -269,13 +270,13 @@ export const zenobiaPaymentStyles = `
     margin: 0;
     font-size: 24px;
     font-weight: 600;
-    color: #333;
+    color: var(--zenobia-text, #333);
   }
 
   .subtitle {
     margin: 8px 0 0;
     font-size: 14px;
-    color: #666;
+    color: var(--zenobia-text-muted, #666);
   }
 
   .loading-spinner {
@@ -288,7 +289,7 @@ export const zenobiaPaymentStyles = `
     height: 20px;
     border: 2px solid rgba(0, 0, 0, 0.1);
     border-radius: 50%;
-    border-top-color: #333;
+    border-top-color: var(--zenobia-text, #333);
     animation: spin 0.8s linear infinite;
     flex-shrink: 0;
     display: inline-block;
@@ -309,7 +310,7 @@ export const zenobiaPaymentStyles = `
   .qr-code-container {
     margin: 0 auto;
     padding: 4px;
-    background: white;
+    background: var(--zenobia-qr-background, white);
     border-radius: 12px;
     display: inline-block;
     box-shadow: 0 4px 6px rgba(0, 0, 0, 0.05);
@@ -319,7 +320,7 @@ export const zenobiaPaymentStyles = `
     font-size: 40px;
     font-weight: 600;
     margin: 16px 0 8px;
-    color: #333;
+    color: var(--zenobia-text, #333);
   }
 
   .payment-status {
@@ -345,7 +346,7 @@ export const zenobiaPaymentStyles = `
 
   .payment-instructions {
     font-size: 16px;
-    color: #666;
+    color: var(--zenobia-text-muted, #666);
     margin-bottom: auto;
     margin-top: auto;
   }
@@ -357,7 +358,7 @@ export const zenobiaPaymentStyles = `
     width: 36px;
     height: 36px;
     border-radius: 50%;
-    background-color: #f0f0f0;
+    background-color: var(--zenobia-muted-surface, #f0f0f0);
     border: none;
     cursor: pointer;
     display: flex;
@@ -368,18 +369,23 @@ export const zenobiaPaymentStyles = `
     z-index: 10;
   }
 
+  [dir="rtl"] .zenobia-qr-close {
+    right: auto;
+    left: 16px;
+  }
+
   .zenobia-qr-close:hover {
-    background-color: #e0e0e0;
+    background-color: var(--zenobia-border, #e0e0e0);
   }
 
   .zenobia-qr-close svg {
     width: 14px;
     height: 14px;
-    stroke: #4b5563;
+    stroke: var(--zenobia-text-muted, #4b5563);
   }
 
   .zenobia-qr-placeholder {
-    background-color: #e0e0e0;
+    background-color: var(--zenobia-muted-surface, #e0e0e0);
     border-radius: 12px;
     position: relative;
     overflow: hidden;
@@ -413,7 +419,7 @@ export const zenobiaPaymentStyles = `
     width: 220px;
     height: 220px;
     object-fit: contain;
-    background-color: white;
+    background-color: var(--zenobia-qr-background, white);
   }
 
   .zenobia-qr-instructions {
@@ -424,12 +430,159 @@ export const zenobiaPaymentStyles = `
   }
 
   .zenobia-error {
-    color: #ef4444;
+    color: var(--zenobia-danger, #ef4444);
     font-size: 14px;
     margin-top: 16px;
     text-align: center;
   }
 
+  .zenobia-expiry {
+    font-size: 13px;
+    color: var(--zenobia-text-muted, #666);
+    margin-top: 8px;
+    font-variant-numeric: tabular-nums;
+  }
+
+  .zenobia-expiry.warning {
+    color: var(--zenobia-warning, #b45309);
+    font-weight: 500;
+  }
+
+  .zenobia-qr-expired {
+    position: absolute;
+    top: 0;
+    left: 0;
+    right: 0;
+    bottom: 0;
+    background: var(--zenobia-surface, rgba(255, 255, 255, 0.95));
+    display: flex;
+    flex-direction: column;
+    justify-content: center;
+    align-items: center;
+    gap: 12px;
+    border-radius: 8px;
+    color: var(--zenobia-text, #333);
+    font-size: 16px;
+    font-weight: 500;
+    z-index: 10;
+  }
+
+  .zenobia-qr-refresh {
+    background-color: var(--zenobia-primary, black);
+    color: var(--zenobia-on-primary, white);
+    border: none;
+    border-radius: 999px;
+    padding: 8px 20px;
+    font-size: 14px;
+    font-weight: 500;
+    cursor: pointer;
+  }
+
+  .zenobia-qr-refresh:hover {
+    opacity: 0.85;
+  }
+
+  .zenobia-result {
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    padding: 16px 0 8px;
+  }
+
+  .zenobia-result-icon {
+    width: 64px;
+    height: 64px;
+    border-radius: 50%;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    margin-bottom: 16px;
+  }
+
+  .zenobia-result-icon svg {
+    width: 32px;
+    height: 32px;
+  }
+
+  .zenobia-result.success .zenobia-result-icon {
+    background-color: #f0fdf4;
+    background-color: color-mix(
+      in srgb,
+      var(--zenobia-success, #16a34a) 12%,
+      transparent
+    );
+    color: var(--zenobia-success, #16a34a);
+  }
+
+  .zenobia-result.failed .zenobia-result-icon {
+    background-color: #fef2f2;
+    background-color: color-mix(
+      in srgb,
+      var(--zenobia-danger, #ef4444) 12%,
+      transparent
+    );
+    color: var(--zenobia-danger, #ef4444);
+  }
+
+  .zenobia-result.cancelled .zenobia-result-icon {
+    background-color: var(--zenobia-muted-surface, #f0f0f0);
+    color: var(--zenobia-text-muted, #666);
+  }
+
+  .zenobia-result-title {
+    margin: 0;
+    font-size: 20px;
+    font-weight: 600;
+    color: var(--zenobia-text, #333);
+  }
+
+  .zenobia-result-message {
+    margin: 8px 0 0;
+    font-size: 14px;
+    color: var(--zenobia-text-muted, #666);
+  }
+
+  .zenobia-result-action {
+    margin-top: 20px;
+    background-color: var(--zenobia-primary, black);
+    color: var(--zenobia-on-primary, white);
+    border: none;
+    border-radius: 999px;
+    padding: 10px 24px;
+    font-size: 15px;
+    font-weight: 500;
+    cursor: pointer;
+  }
+
+  .zenobia-result-action:hover {
+    opacity: 0.85;
+  }
+
+  .zenobia-confirm-close {
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    text-align: center;
+    padding: 16px 0 8px;
+  }
+
+  .zenobia-confirm-actions {
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    gap: 8px;
+  }
+
+  .zenobia-confirm-dismiss {
+    background: none;
+    border: none;
+    padding: 8px 16px;
+    font-size: 14px;
+    color: var(--zenobia-text-muted, #666);
+    text-decoration: underline;
+    cursor: pointer;
+  }
+
   @keyframes spin {
     to {
       transform: rotate(360deg);
@@ -550,4 +703,47 @@ export const zenobiaPaymentStyles = `
     height: 14px;
     stroke: #9ca3af;
   }
+
+  .zenobia-dialog:focus {
+    outline: none;
+  }
+
+  .zenobia-sr-only {
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    padding: 0;
+    margin: -1px;
+    overflow: hidden;
+    clip: rect(0, 0, 0, 0);
+    white-space: nowrap;
+    border: 0;
+  }
+
+  @media (prefers-reduced-motion: reduce) {
+    .zenobia-qr-placeholder::before {
+      animation: none;
+    }
+
+    /* Static ring instead of a rotating arc */
+    .spinner {
+      animation: none;
+      border-color: var(--zenobia-text-muted, #666);
+      opacity: 0.5;
+    }
+
+    .zenobia-payment-button,
+    .zenobia-payment-button::before,
+    .initial-text,
+    .hover-text,
+    .zenobia-qr-tooltip,
+    .zenobia-qr-popup-overlay,
+    .zenobia-modal-overlay {
+      transition: none;
+    }
+
+    .zenobia-payment-button:not(:disabled):hover {
+      transform: none;
+    }
+  }
 `;
@@ -0,0 +1,134 @@
+import {
+  Component,
+  JSX,
+  createSignal,
+  createEffect,
+  onCleanup,
+} from "solid-js";
+
+export type TooltipPlacement = "above" | "below";
+
+interface ZenobiaQrTooltipProps {
+  anchor?: HTMLElement; // Element the tooltip is positioned against
+  placement: TooltipPlacement; // Preferred side, flipped when there is no room
+  onDismiss?: () => void; // Called on clicks outside the anchor
+  dir?: "ltr" | "rtl"; // Text direction of the content
+  lang?: string;
+  children: JSX.Element;
+}
+
+// Space between the anchor and the tooltip (matches the CSS margin)
+const TOOLTIP_GAP = 8;
+// Minimum distance kept between the tooltip and the viewport edges
+const VIEWPORT_MARGIN = 8;
+// Keep the caret clear of the rounded corners of the content box
+const CARET_INSET = 24;
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(value, max));
+
+export const ZenobiaQrTooltip: Component<ZenobiaQrTooltipProps> = (props) => {
+  let tooltipRef: HTMLDivElement | undefined;
+  const [placement, setPlacement] = createSignal<TooltipPlacement>(
+    props.placement
+  );
+  const [tooltipOffset, setTooltipOffset] = createSignal(0);
+  const [caretOffset, setCaretOffset] = createSignal(0);
+  const [isExpanding, setIsExpanding] = createSignal(true);
+
+  // Flip to the other side when the preferred one would overflow the
+  // viewport, and shift horizontally so the tooltip stays on screen
+  const updatePosition = () => {
+    const anchor = props.anchor;
+    if (!anchor || !tooltipRef) return;
+
+    const anchorRect = anchor.getBoundingClientRect();
+    const tooltipWidth = tooltipRef.offsetWidth;
+    const requiredSpace = tooltipRef.offsetHeight + TOOLTIP_GAP;
+
+    const spaceAbove = anchorRect.top - VIEWPORT_MARGIN;
+    const spaceBelow = window.innerHeight - anchorRect.bottom - VIEWPORT_MARGIN;
+
+    let nextPlacement = props.placement;
+    if (
+      nextPlacement === "above" &&
+      spaceAbove < requiredSpace &&
+      spaceBelow > spaceAbove
+    ) {
+      nextPlacement = "below";
+    } else if (
+      nextPlacement === "below" &&
+      spaceBelow < requiredSpace &&
+      spaceAbove > spaceBelow
+    ) {
+      nextPlacement = "above";
+    }
+    setPlacement(nextPlacement);
+
+    const anchorCenter = anchorRect.left + anchorRect.width / 2;
+    const left = clamp(
+      anchorCenter - tooltipWidth / 2,
+      VIEWPORT_MARGIN,
+      window.innerWidth - tooltipWidth - VIEWPORT_MARGIN
+    );
+
+    // Offsets are relative to the anchor, which is the containing block
+    setTooltipOffset(left - anchorRect.left);
+    setCaretOffset(
+      clamp(anchorCenter - left, CARET_INSET, tooltipWidth - CARET_INSET)
+    );
+  };
+
+  createEffect(() => {
+    // Measure once the tooltip is in the DOM, then play the enter animation
+    const frame = requestAnimationFrame(() => {
+      updatePosition();
+      setIsExpanding(false);
+    });
+
+    const handlePointerDown = (event: MouseEvent) => {
+      const anchor = props.anchor;
+      if (anchor && !event.composedPath().includes(anchor)) {
+        props.onDismiss?.();
+      }
+    };
+
+    window.addEventListener("resize", updatePosition);
+    // Capture scrolls from any scrollable ancestor (e.g. cart drawers)
+    window.addEventListener("scroll", updatePosition, true);
+    document.addEventListener("mousedown", handlePointerDown);
+
+    onCleanup(() => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("resize", updatePosition);
+      window.removeEventListener("scroll", updatePosition, true);
+      document.removeEventListener("mousedown", handlePointerDown);
+    });
+  });
+
+  return (
+    <div
+      ref={tooltipRef}
+      class="zenobia-qr-tooltip"
+      part="tooltip"
+      dir={props.dir}
+      lang={props.lang}
+      classList={{
+        above: placement() === "above",
+        below: placement() === "below",
+        expanding: isExpanding(),
+        visible: !isExpanding(),
+      }}
+      style={{
+        left: `${tooltipOffset()}px`,
+        right: "auto",
+        width: "max-content",
+      }}
+    >
+      <div class="zenobia-qr-caret" style={{ left: `${caretOffset()}px` }} />
+      <div class="zenobia-qr-content" part="dialog">
+        {props.children}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import { zenobiaPaymentStyles } from "./ZenobiaPaymentStyles";
+
+// Class on the element hosting the shadow root, e.g. for
+// `.zenobia-pay-host::part(button) { ... }`
+export const SHADOW_HOST_CLASS = "zenobia-pay-host";
+
+let sharedStyleSheet: CSSStyleSheet | null = null;
+
+const supportsAdoptedStyleSheets = (): boolean =>
+  typeof CSSStyleSheet !== "undefined" &&
+  "replaceSync" in CSSStyleSheet.prototype &&
+  "adoptedStyleSheets" in Document.prototype;
+
+// Add the Zenobia styles to a shadow root, sharing one constructed sheet
+// between all roots where the browser supports it
+export function adoptZenobiaStyles(root: ShadowRoot) {
+  if (supportsAdoptedStyleSheets()) {
+    if (!sharedStyleSheet) {
+      sharedStyleSheet = new CSSStyleSheet();
+      sharedStyleSheet.replaceSync(zenobiaPaymentStyles);
+    }
+    if (!root.adoptedStyleSheets.includes(sharedStyleSheet)) {
+      root.adoptedStyleSheets = [...root.adoptedStyleSheets, sharedStyleSheet];
+    }
+    return;
+  }
+
+  const style = document.createElement("style");
+  style.textContent = zenobiaPaymentStyles;
+  root.appendChild(style);
+}
+
+/**
+ * Create the node the bundles render into. By default this is the shadow
+ * root of a new host element inside `target`, which keeps the generic class
+ * names in our CSS away from the merchant's theme and vice versa. With
+ * `shadow: false` the target itself is returned.
+ */
+export function createMountRoot(
+  target: Element,
+  shadow = true
+): Element | ShadowRoot {
+  if (!shadow) return target;
+
+  const host = document.createElement("div");
+  host.className = SHADOW_HOST_CLASS;
+  target.appendChild(host);
+
+  const root = host.attachShadow({ mode: "open" });
+  adoptZenobiaStyles(root);
+  return root;
+}
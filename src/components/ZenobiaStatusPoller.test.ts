@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildStatusUrl, createStatusPoller } from "./ZenobiaStatusPoller";
+import { StatusServer, startStatusServer } from "../test/statusServer";
+
+describe("buildStatusUrl", () => {
+  it("substitutes the transfer id into a template", () => {
+    expect(
+      buildStatusUrl("https://shop.test/status/{transferRequestId}", "a b/c")
+    ).toBe("https://shop.test/status/a%20b%2Fc");
+  });
+
+  it("adds the signature to a template as a query parameter", () => {
+    expect(
+      buildStatusUrl("https://shop.test/status/{transferRequestId}", "t1", "s")
+    ).toBe("https://shop.test/status/t1?signature=s");
+  });
+
+  it("appends the id and signature as query parameters otherwise", () => {
+    const url = new URL(
+      buildStatusUrl("https://shop.test/status?store=1", "t1", "sig")
+    );
+    expect(url.pathname).toBe("/status");
+    expect(url.searchParams.get("store")).toBe("1");
+    expect(url.searchParams.get("transferRequestId")).toBe("t1");
+    expect(url.searchParams.get("signature")).toBe("sig");
+  });
+
+  it("resolves relative URLs against the page", () => {
+    expect(buildStatusUrl("/status", "t1")).toBe(
+      new URL("/status?transferRequestId=t1", window.location.href).toString()
+    );
+  });
+});
+
+describe("createStatusPoller", () => {
+  let server: StatusServer;
+
+  beforeEach(async () => {
+    server = await startStatusServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("polls the endpoint and reports each status", async () => {
+    const onStatus = vi.fn();
+    const poller = createStatusPoller({
+      url: `${server.url}/status`,
+      transferRequestId: "t1",
+      signature: "sig",
+      onStatus,
+      initialInterval: 10,
+      maxInterval: 10,
+    });
+
+    await vi.waitFor(() =>
+      expect(onStatus.mock.calls.length).toBeGreaterThanOrEqual(2)
+    );
+    poller.stop();
+
+    expect(onStatus).toHaveBeenCalledWith({ status: "PENDING" });
+    expect(server.requests[0].url.pathname).toBe("/status");
+    expect(server.requests[0].url.searchParams.get("transferRequestId")).toBe(
+      "t1"
+    );
+    expect(server.requests[0].url.searchParams.get("signature")).toBe("sig");
+  });
+
+  it("backs off between polls up to the maximum interval", async () => {
+    const start = performance.now();
+    const poller = createStatusPoller({
+      url: `${server.url}/status/{transferRequestId}`,
+      transferRequestId: "t1",
+      onStatus: () => {},
+      initialInterval: 20,
+      backoffFactor: 2,
+      maxInterval: 80,
+    });
+
+    await vi.waitFor(
+      () => expect(server.requests.length).toBeGreaterThanOrEqual(5),
+      { timeout: 2000 }
+    );
+    poller.stop();
+
+    // Timers may fire late but never early
+    const times = [start, ...server.requests.map((request) => request.at)];
+    const gaps = times.slice(1).map((time, i) => time - times[i]);
+    [20, 40, 80, 80, 80].forEach((expected, i) => {
+      expect(gaps[i]).toBeGreaterThanOrEqual(expected - 2);
+    });
+    expect(server.requests[0].url.pathname).toBe("/status/t1");
+  });
+
+  it("reports failed requests and keeps polling", async () => {
+    server.respond(503, { error: "unavailable" });
+    const onStatus = vi.fn();
+    const onError = vi.fn();
+    const poller = createStatusPoller({
+      url: `${server.url}/status`,
+      transferRequestId: "t1",
+      onStatus,
+      onError,
+      initialInterval: 10,
+      maxInterval: 10,
+    });
+
+    await vi.waitFor(() =>
+      expect(onError.mock.calls.length).toBeGreaterThanOrEqual(2)
+    );
+    server.respond(200, { status: "PAID" });
+    await vi.waitFor(() => expect(onStatus).toHaveBeenCalled());
+    poller.stop();
+
+    expect(onError.mock.calls[0][0].message).toBe(
+      "Status request failed with 503"
+    );
+    expect(onStatus).toHaveBeenCalledWith({ status: "PAID" });
+  });
+
+  it("rejects responses without a status", async () => {
+    server.respond(200, { state: "PAID" });
+    const onError = vi.fn();
+    const poller = createStatusPoller({
+      url: `${server.url}/status`,
+      transferRequestId: "t1",
+      onStatus: () => {},
+      onError,
+      initialInterval: 10,
+    });
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+    poller.stop();
+
+    expect(onError.mock.calls[0][0].message).toBe(
+      "Status response is missing a status field"
+    );
+  });
+
+  it("stops polling when stopped", async () => {
+    const poller = createStatusPoller({
+      url: `${server.url}/status`,
+      transferRequestId: "t1",
+      onStatus: () => {},
+      initialInterval: 10,
+      maxInterval: 10,
+    });
+
+    await vi.waitFor(() =>
+      expect(server.requests.length).toBeGreaterThanOrEqual(1)
+    );
+    poller.stop();
+    const count = server.requests.length;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(server.requests.length).toBe(count);
+  });
+});
@@ -0,0 +1,116 @@
+import type { ClientTransferStatus } from "./ZenobiaTransferSession";
+
+export interface StatusPollerOptions {
+  url: string; // Status endpoint; "{transferRequestId}" is substituted if present
+  transferRequestId: string;
+  signature?: string;
+  onStatus: (status: ClientTransferStatus) => void;
+  onError?: (error: Error) => void;
+  initialInterval?: number; // ms before the first poll
+  maxInterval?: number; // upper bound for the backoff, in ms
+  backoffFactor?: number; // interval multiplier applied after each poll
+}
+
+export interface StatusPoller {
+  stop: () => void;
+}
+
+const DEFAULT_INITIAL_INTERVAL = 2000;
+const DEFAULT_MAX_INTERVAL = 30000;
+const DEFAULT_BACKOFF_FACTOR = 1.5;
+
+// Resolve the status URL for a transfer, either by template substitution or
+// by appending the id as a query parameter; the signature is always a query
+// parameter
+export const buildStatusUrl = (
+  url: string,
+  transferRequestId: string,
+  signature?: string
+): string => {
+  const templated = url.includes("{transferRequestId}");
+  const statusUrl = new URL(
+    templated
+      ? url.replace(
+          "{transferRequestId}",
+          encodeURIComponent(transferRequestId)
+        )
+      : url,
+    window.location.href
+  );
+  if (!templated) {
+    statusUrl.searchParams.set("transferRequestId", transferRequestId);
+  }
+  // The signature authenticates the poll, so templated URLs get it too
+  if (signature) {
+    statusUrl.searchParams.set("signature", signature);
+  }
+  return statusUrl.toString();
+};
+
+/**
+ * HTTP fallback for networks that block WebSockets. Polls the status
+ * endpoint with exponential backoff until stopped and reports each response
+ * in the same shape as ZenobiaClient status updates.
+ */
+export function createStatusPoller(options: StatusPollerOptions): StatusPoller {
+  const maxInterval = options.maxInterval ?? DEFAULT_MAX_INTERVAL;
+  const backoffFactor = options.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+  const statusUrl = buildStatusUrl(
+    options.url,
+    options.transferRequestId,
+    options.signature
+  );
+
+  let interval = options.initialInterval ?? DEFAULT_INITIAL_INTERVAL;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let controller: AbortController | undefined;
+  let stopped = false;
+
+  const poll = async () => {
+    controller = new AbortController();
+
+    try {
+      const response = await fetch(statusUrl, {
+        headers: { Accept: "application/json" },
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Status request failed with ${response.status}`);
+      }
+
+      const body = await response.json();
+      if (!body || typeof body.status !== "string") {
+        throw new Error("Status response is missing a status field");
+      }
+
+      if (!stopped) {
+        options.onStatus(body as ClientTransferStatus);
+      }
+    } catch (error) {
+      if (stopped) return;
+      options.onError?.(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    scheduleNext();
+  };
+
+  const scheduleNext = () => {
+    if (stopped) return;
+    timer = setTimeout(poll, interval);
+    interval = Math.min(interval * backoffFactor, maxInterval);
+  };
+
+  scheduleNext();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      controller?.abort();
+    },
+  };
+}
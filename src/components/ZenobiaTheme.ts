@@ -0,0 +1,152 @@
+import { Accessor, createSignal, onCleanup } from "solid-js";
+
+export interface ZenobiaThemeTokens {
+  primary: string; // Pay button and action backgrounds
+  onPrimary: string; // Text on primary backgrounds
+  accentStart: string; // Pay button hover gradient start
+  accentEnd: string; // Pay button hover gradient end
+  surface: string; // Modal and tooltip background
+  mutedSurface: string; // Close button and QR placeholder background
+  text: string;
+  textMuted: string;
+  border: string;
+  success: string; // Paid result icon
+  danger: string; // Failed result icon
+  warning: string; // Expiry countdown once it is close
+  overlay: string; // Backdrop behind the modal
+  qrOverlay: string; // "Complete on your phone" / reconnecting cover over the QR
+  qrOverlayText: string;
+  qrDots: string;
+  qrBackground: string;
+  fontFamily: string;
+}
+
+export type ZenobiaTheme =
+  | "light"
+  | "dark"
+  | "auto" // follows prefers-color-scheme
+  | Partial<ZenobiaThemeTokens>; // custom tokens on top of the light theme
+
+export const lightTheme: ZenobiaThemeTokens = {
+  primary: "#000000",
+  onPrimary: "#ffffff",
+  accentStart: "coral",
+  accentEnd: "orange",
+  surface: "#ffffff",
+  mutedSurface: "#f0f0f0",
+  text: "#333333",
+  textMuted: "#666666",
+  border: "#e5e7eb",
+  success: "#16a34a",
+  danger: "#ef4444",
+  warning: "#b45309",
+  overlay: "rgba(0, 0, 0, 0.5)",
+  qrOverlay: "rgba(0, 0, 0, 0.95)",
+  qrOverlayText: "#ffffff",
+  qrDots: "#000000",
+  qrBackground: "#ffffff",
+  fontFamily:
+    "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif",
+};
+
+export const darkTheme: ZenobiaThemeTokens = {
+  ...lightTheme,
+  primary: "#ffffff",
+  onPrimary: "#000000",
+  surface: "#18181b",
+  mutedSurface: "#27272a",
+  text: "#f4f4f5",
+  textMuted: "#a1a1aa",
+  border: "#3f3f46",
+  success: "#4ade80",
+  danger: "#f87171",
+  warning: "#fbbf24",
+  overlay: "rgba(0, 0, 0, 0.7)",
+  qrOverlay: "rgba(24, 24, 27, 0.95)",
+  qrOverlayText: "#f4f4f5",
+  // Keep dark-on-light modules so every scanner can read the code
+  qrDots: "#18181b",
+  qrBackground: "#fafafa",
+};
+
+// CSS custom property backing each token
+export const themeVariables: Record<keyof ZenobiaThemeTokens, string> = {
+  primary: "--zenobia-primary",
+  onPrimary: "--zenobia-on-primary",
+  accentStart: "--zenobia-accent-start",
+  accentEnd: "--zenobia-accent-end",
+  surface: "--zenobia-surface",
+  mutedSurface: "--zenobia-muted-surface",
+  text: "--zenobia-text",
+  textMuted: "--zenobia-text-muted",
+  border: "--zenobia-border",
+  success: "--zenobia-success",
+  danger: "--zenobia-danger",
+  warning: "--zenobia-warning",
+  overlay: "--zenobia-overlay",
+  qrOverlay: "--zenobia-qr-overlay",
+  qrOverlayText: "--zenobia-qr-overlay-text",
+  qrDots: "--zenobia-qr-dots",
+  qrBackground: "--zenobia-qr-background",
+  fontFamily: "--zenobia-font-family",
+};
+
+// Signal tracking the prefers-color-scheme media query
+const createPrefersDark = (): Accessor<boolean> => {
+  if (typeof window === "undefined" || !window.matchMedia) {
+    return () => false;
+  }
+
+  const query = window.matchMedia("(prefers-color-scheme: dark)");
+  const [prefersDark, setPrefersDark] = createSignal(query.matches);
+  const handleChange = (event: MediaQueryListEvent) =>
+    setPrefersDark(event.matches);
+
+  query.addEventListener("change", handleChange);
+  onCleanup(() => query.removeEventListener("change", handleChange));
+
+  return prefersDark;
+};
+
+export interface ResolvedTheme {
+  tokens: Accessor<ZenobiaThemeTokens>; // Effective colors, e.g. for the QR code
+  style: Accessor<Record<string, string>>; // Custom properties to set inline
+}
+
+/**
+ * Resolve the `theme` prop into tokens and inline CSS variables. Without a
+ * theme no variables are set, so merchants can define --zenobia-* in their
+ * own stylesheet and the light defaults in the CSS apply otherwise.
+ */
+export function createTheme(
+  theme: Accessor<ZenobiaTheme | undefined>
+): ResolvedTheme {
+  const prefersDark = createPrefersDark();
+
+  const tokens = () => {
+    const value = theme();
+    if (value === "dark" || (value === "auto" && prefersDark())) {
+      return darkTheme;
+    }
+    if (typeof value === "object") {
+      return { ...lightTheme, ...value };
+    }
+    return lightTheme;
+  };
+
+  const style = () => {
+    const value = theme();
+    if (value === undefined) return {};
+
+    const source = typeof value === "object" ? value : tokens();
+    const variables: Record<string, string> = {};
+    for (const key of Object.keys(source) as (keyof ZenobiaThemeTokens)[]) {
+      if (themeVariables[key] && source[key]) {
+        variables[themeVariables[key]] = source[key]!;
+      }
+    }
+    return variables;
+  };
+
+  return { tokens, style };
+}
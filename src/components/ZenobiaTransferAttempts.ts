@@ -0,0 +1,69 @@
+import type { CreateTransferRequestResponse } from "./ZenobiaPaymentButton";
+
+// One checkout attempt: everything sent to create a single transfer. The
+// idempotency key survives retries of the same create, so the merchant
+// endpoint can return the original transfer instead of a duplicate.
+interface TransferAttempt {
+  idempotencyKey: string;
+  pending?: Promise<CreateTransferRequestResponse>;
+  transfer?: CreateTransferRequestResponse;
+  createdAt?: number; // When `transfer` was created, ms since the epoch
+}
+
+// Shared by every session on the page, keyed by endpoint + checkout
+const attempts = new Map<string, TransferAttempt>();
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+const getAttempt = (key: string): TransferAttempt => {
+  let attempt = attempts.get(key);
+  if (!attempt) {
+    attempt = { idempotencyKey: createIdempotencyKey() };
+    attempts.set(key, attempt);
+  }
+  return attempt;
+};
+
+/**
+ * Create the transfer for an attempt, sharing the request with any create
+ * for the same attempt that is still in flight.
+ */
+export function createTransferOnce(
+  key: string,
+  create: (idempotencyKey: string) => Promise<CreateTransferRequestResponse>
+): Promise<CreateTransferRequestResponse> {
+  const attempt = getAttempt(key);
+  if (attempt.pending) return attempt.pending;
+
+  const pending = create(attempt.idempotencyKey)
+    .then((transfer) => {
+      attempt.transfer = transfer;
+      attempt.createdAt = Date.now();
+      return transfer;
+    })
+    .finally(() => {
+      if (attempt.pending === pending) attempt.pending = undefined;
+    });
+  attempt.pending = pending;
+  return pending;
+}
+
+// Transfer already created for this attempt, if any
+export function getAttemptTransfer(
+  key: string
+): { transfer: CreateTransferRequestResponse; createdAt: number } | null {
+  const attempt = attempts.get(key);
+  return attempt?.transfer && attempt.createdAt
+    ? { transfer: attempt.transfer, createdAt: attempt.createdAt }
+    : null;
+}
+
+// The transfer settled or expired; the next create starts a new attempt
+export function endAttempt(key: string) {
+  attempts.delete(key);
+}
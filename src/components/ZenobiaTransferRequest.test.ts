@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ZenobiaClient } from "@zenobia/client";
+import { requestTransfer } from "./ZenobiaTransferRequest";
+import { StatusServer, startStatusServer } from "../test/statusServer";
+
+const created = { transferRequestId: "t1", signature: "sig" };
+
+const fakeClient = (createTransfer: () => Promise<unknown>) =>
+  ({ createTransfer: vi.fn(createTransfer) } as unknown as ZenobiaClient & {
+    createTransfer: ReturnType<typeof vi.fn>;
+  });
+
+describe("requestTransfer", () => {
+  let server: StatusServer;
+
+  beforeEach(async () => {
+    server = await startStatusServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("retries fetch requests with the same Idempotency-Key", async () => {
+    server.respondOnce(503, { error: "unavailable" });
+    server.respond(200, created);
+
+    const transfer = await requestTransfer({
+      url: `${server.url}/create-transfer`,
+      metadata: { amount: 1000 },
+      idempotencyKey: "key-1",
+      client: fakeClient(() => Promise.reject(new Error("unused"))),
+      options: { requestInit: {}, retryDelay: 10 },
+    });
+
+    expect(transfer).toEqual({ ...created, expiry: undefined });
+    expect(server.requests).toHaveLength(2);
+    for (const request of server.requests) {
+      expect(request.method).toBe("POST");
+      expect(request.headers["idempotency-key"]).toBe("key-1");
+      expect(JSON.parse(request.body)).toEqual({ amount: 1000 });
+    }
+  });
+
+  it("does not retry the client by default", async () => {
+    const client = fakeClient(() =>
+      Promise.reject(new TypeError("Failed to fetch"))
+    );
+
+    const error = await requestTransfer({
+      url: `${server.url}/create-transfer`,
+      metadata: {},
+      idempotencyKey: "key-1",
+      client,
+      options: { retryDelay: 10 },
+    }).catch((error) => error);
+
+    expect(error.code).toBe("network_error");
+    expect(client.createTransfer).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries the client when retries is set", async () => {
+    const client = fakeClient(() =>
+      Promise.reject(new TypeError("Failed to fetch"))
+    );
+
+    await requestTransfer({
+      url: `${server.url}/create-transfer`,
+      metadata: {},
+      idempotencyKey: "key-1",
+      client,
+      options: { retries: 1, retryDelay: 10 },
+    }).catch(() => {});
+
+    expect(client.createTransfer).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports bugs in a custom createTransfer as create_failed", async () => {
+    const createTransfer = vi.fn(async () => {
+      throw new TypeError("metadata.items is undefined");
+    });
+
+    const error = await requestTransfer({
+      metadata: {},
+      idempotencyKey: "key-1",
+      client: fakeClient(() => Promise.reject(new Error("unused"))),
+      createTransfer,
+      options: { retryDelay: 10 },
+    }).catch((error) => error);
+
+    expect(error.code).toBe("create_failed");
+    expect(createTransfer).toHaveBeenCalledTimes(1);
+  });
+});
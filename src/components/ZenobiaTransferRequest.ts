@@ -0,0 +1,181 @@
+import type { ZenobiaClient } from "@zenobia/client";
+import type { CreateTransferRequestResponse } from "./ZenobiaPaymentButton";
+import {
+  ZenobiaError,
+  ZenobiaHttpError,
+  ZenobiaNetworkError,
+  toZenobiaError,
+} from "./ZenobiaErrors";
+import { validateTransferResponse } from "./ZenobiaValidation";
+
+export interface CreateTransferOptions {
+  requestInit?: RequestInit; // Headers, credentials, etc.; the request is then sent with fetch
+  transformBody?: (metadata: Record<string, any>) => unknown; // Custom JSON body for the endpoint
+  timeout?: number; // Per attempt, in ms (default 15000)
+  retries?: number; // Extra attempts after network errors, timeouts, 429 and 5xx (default 2, 0 without an Idempotency-Key header)
+  retryDelay?: number; // Delay before the first retry in ms, doubled after each (default 500)
+}
+
+export interface CreateTransferContext {
+  idempotencyKey: string; // Same for every retry of this attempt
+  signal: AbortSignal; // Aborted when the attempt times out
+}
+
+// Replaces the request to `url` entirely
+export type CreateTransferFn = (
+  metadata: Record<string, any>,
+  context: CreateTransferContext
+) => Promise<CreateTransferRequestResponse>;
+
+export interface TransferRequestParams {
+  url?: string;
+  metadata: Record<string, any>;
+  idempotencyKey: string;
+  client: ZenobiaClient;
+  createTransfer?: CreateTransferFn;
+  options?: CreateTransferOptions;
+  debug?: boolean; // Add hints to invalid response errors
+}
+
+const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500;
+
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const isRetryable = (error: ZenobiaError): boolean =>
+  error instanceof ZenobiaNetworkError ||
+  (error instanceof ZenobiaHttpError &&
+    (error.status === 429 || error.status >= 500));
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return text;
+  }
+};
+
+async function fetchTransfer(
+  params: TransferRequestParams,
+  signal: AbortSignal
+): Promise<CreateTransferRequestResponse> {
+  const { requestInit, transformBody } = params.options ?? {};
+  const headers = new Headers(requestInit?.headers);
+  if (!headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  headers.set("Accept", "application/json");
+  headers.set("Idempotency-Key", params.idempotencyKey);
+
+  let response: Response;
+  try {
+    response = await fetch(params.url!, {
+      method: "POST",
+      ...requestInit,
+      headers,
+      body: JSON.stringify(
+        transformBody ? transformBody(params.metadata) : params.metadata
+      ),
+      signal,
+    });
+  } catch (error) {
+    throw new ZenobiaNetworkError(
+      "Could not reach the payment endpoint",
+      error
+    );
+  }
+
+  const body = await readBody(response);
+  if (!response.ok) {
+    throw new ZenobiaHttpError(
+      response.status,
+      `Create transfer request failed with ${response.status}`,
+      body
+    );
+  }
+  return validateTransferResponse(body, params.debug);
+}
+
+// Run one attempt, rejecting with a timeout error even if `run` ignores
+// the abort signal
+const withTimeout = <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeout: number
+): Promise<T> => {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(
+        new ZenobiaNetworkError(
+          `Create transfer request timed out after ${timeout}ms`,
+          undefined,
+          "timeout"
+        )
+      );
+    }, timeout);
+    run(controller.signal)
+      .then(resolve, reject)
+      .finally(() => clearTimeout(timer));
+  });
+};
+
+/**
+ * Create a transfer through the custom `createTransfer`, a fetch with the
+ * merchant's request options, or the Zenobia client, in that order of
+ * preference. Failed attempts are retried with exponential backoff when
+ * the failure looks temporary; errors are always ZenobiaErrors.
+ *
+ * The client sends no Idempotency-Key header and cannot be aborted, so a
+ * retry could create a second transfer; it is only retried when `retries`
+ * is set explicitly.
+ */
+export async function requestTransfer(
+  params: TransferRequestParams
+): Promise<CreateTransferRequestResponse> {
+  const options = params.options ?? {};
+  const viaClient =
+    !params.createTransfer && !options.requestInit && !options.transformBody;
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const retries = options.retries ?? (viaClient ? 0 : DEFAULT_RETRIES);
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+
+  const run = (signal: AbortSignal): Promise<CreateTransferRequestResponse> => {
+    if (params.createTransfer) {
+      return params
+        .createTransfer(params.metadata, {
+          idempotencyKey: params.idempotencyKey,
+          signal,
+        })
+        .then((body) => validateTransferResponse(body, params.debug));
+    }
+    if (!viaClient) {
+      return fetchTransfer(params, signal);
+    }
+    return params.client
+      .createTransfer(params.url!, params.metadata)
+      .catch((error) => {
+        // The client's fetch rejects with a TypeError when the network is
+        // down
+        throw error instanceof TypeError
+          ? new ZenobiaNetworkError(error.message, error)
+          : error;
+      })
+      .then((body) => validateTransferResponse(body, params.debug));
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(run, timeout);
+    } catch (error) {
+      const zenobiaError = toZenobiaError(error);
+      if (attempt >= retries || !isRetryable(zenobiaError)) {
+        throw zenobiaError;
+      }
+      await delay(retryDelay * 2 ** attempt);
+    }
+  }
+}
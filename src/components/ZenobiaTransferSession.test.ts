@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRoot } from "solid-js";
+import {
+  TransferSessionOptions,
+  createTransferSession,
+  findResumableTransfer,
+} from "./ZenobiaTransferSession";
+import { TransferStatus } from "./ZenobiaPaymentButton";
+import { createLogger } from "./ZenobiaLogger";
+import { StatusServer, startStatusServer } from "../test/statusServer";
+
+// The WebSocket client is driven by hand through the callbacks the session
+// registers with listenToTransfer
+const client = vi.hoisted(() => ({
+  onConnectionChange: undefined as ((connected: boolean) => void) | undefined,
+  disconnect: undefined as (() => void) | undefined,
+}));
+
+vi.mock("@zenobia/client", () => ({
+  ZenobiaClient: class {
+    disconnect = vi.fn();
+
+    constructor() {
+      client.disconnect = this.disconnect;
+    }
+
+    listenToTransfer(
+      _transferId: string,
+      _signature: string,
+      _onStatus: unknown,
+      _onError: unknown,
+      onConnectionChange: (connected: boolean) => void
+    ) {
+      client.onConnectionChange = onConnectionChange;
+    }
+
+    createTransfer() {
+      return Promise.reject(new Error("Not used in these tests"));
+    }
+  },
+}));
+
+const transferRequest = { transferRequestId: "t1", signature: "sig" };
+
+let dispose: (() => void) | undefined;
+
+const startSession = (options: Partial<TransferSessionOptions>) =>
+  createRoot((disposeRoot) => {
+    dispose = disposeRoot;
+    const session = createTransferSession({
+      amount: 1000,
+      transferRequest,
+      logger: createLogger({ level: "silent" }),
+      ...options,
+    });
+    session.start();
+    return session;
+  });
+
+afterEach(() => {
+  dispose?.();
+  dispose = undefined;
+});
+
+describe("createTransferSession polling fallback", () => {
+  let server: StatusServer;
+
+  beforeEach(async () => {
+    server = await startStatusServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("switches to polling after the configured failed reconnects", async () => {
+    const session = startSession({
+      pollingUrl: `${server.url}/status`,
+      pollingFallbackAfter: 2,
+    });
+
+    client.onConnectionChange!(false);
+    expect(session.transport()).toBe("websocket");
+    client.onConnectionChange!(false);
+
+    expect(session.transport()).toBe("polling");
+    expect(session.reconnecting()).toBe(false);
+    expect(client.disconnect).toHaveBeenCalled();
+
+    await vi.waitFor(
+      () => expect(server.requests.length).toBeGreaterThanOrEqual(1),
+      { timeout: 4000 }
+    );
+    const query = server.requests[0].url.searchParams;
+    expect(query.get("transferRequestId")).toBe("t1");
+    expect(query.get("signature")).toBe("sig");
+  });
+
+  it("counts reconnects again after the connection comes back", () => {
+    const session = startSession({
+      pollingUrl: `${server.url}/status`,
+      pollingFallbackAfter: 2,
+    });
+
+    client.onConnectionChange!(false);
+    client.onConnectionChange!(true);
+    client.onConnectionChange!(false);
+
+    expect(session.transport()).toBe("websocket");
+  });
+
+  it("keeps the WebSocket without a polling URL", () => {
+    const session = startSession({ pollingFallbackAfter: 1 });
+
+    client.onConnectionChange!(false);
+    client.onConnectionChange!(false);
+
+    expect(session.transport()).toBe("websocket");
+    expect(session.reconnecting()).toBe(true);
+  });
+
+  it("stops polling once the transfer settles", async () => {
+    server.respond(200, { status: "PAID" });
+    const onSuccess = vi.fn();
+    const session = startSession({
+      pollingUrl: `${server.url}/status/{transferRequestId}`,
+      pollingFallbackAfter: 1,
+      onSuccess,
+    });
+
+    client.onConnectionChange!(false);
+
+    await vi.waitFor(() => expect(session.status()).toBe(TransferStatus.PAID), {
+      timeout: 4000,
+    });
+    expect(onSuccess).toHaveBeenCalledWith(transferRequest, { status: "PAID" });
+    expect(server.requests[0].url.pathname).toBe("/status/t1");
+
+    // The next poll would be due two seconds after the first
+    await new Promise((resolve) => setTimeout(resolve, 2500));
+    expect(server.requests.length).toBe(1);
+  }, 10000);
+});
+
+describe("createTransferSession persistence", () => {
+  const startPersisted = () =>
+    startSession({
+      transferRequest: undefined,
+      createTransfer: async () => transferRequest,
+      persistTransfer: true,
+    });
+
+  afterEach(() => {
+    sessionStorage.clear();
+  });
+
+  it("drops the persisted transfer when the session is cancelled", async () => {
+    const session = startPersisted();
+    await vi.waitFor(() =>
+      expect(session.transferRequest()).toEqual(transferRequest)
+    );
+    expect(findResumableTransfer(1000)).toEqual(transferRequest);
+
+    session.cancel();
+
+    expect(findResumableTransfer(1000)).toBeNull();
+  });
+
+  it("keeps the persisted transfer of a detached session", async () => {
+    const session = startPersisted();
+    await vi.waitFor(() =>
+      expect(session.transferRequest()).toEqual(transferRequest)
+    );
+
+    session.detach();
+    dispose?.();
+
+    expect(findResumableTransfer(1000)).toEqual(transferRequest);
+  });
+});
+
+describe("createTransferSession transfer creation", () => {
+  it("passes the idempotency key in the context, not the metadata", async () => {
+    const createTransfer = vi.fn(async () => transferRequest);
+    const metadata = { amount: 1000, orderId: "o1" };
+    const session = startSession({
+      transferRequest: undefined,
+      createTransfer,
+      metadata,
+    });
+    await vi.waitFor(() =>
+      expect(session.transferRequest()).toEqual(transferRequest)
+    );
+
+    expect(createTransfer).toHaveBeenCalledWith(metadata, {
+      idempotencyKey: expect.any(String),
+      signal: expect.any(AbortSignal),
+    });
+  });
+});
@@ -0,0 +1,604 @@
+import { Accessor, createSignal, onCleanup, untrack } from "solid-js";
+import { ZenobiaClient } from "@zenobia/client";
+import {
+  TransferStatus,
+  CreateTransferRequestResponse,
+} from "./ZenobiaPaymentButton";
+import { StatusPoller, createStatusPoller } from "./ZenobiaStatusPoller";
+import {
+  FunnelTrackingOptions,
+  ZenobiaFunnelEventName,
+  createFunnelTracker,
+} from "./ZenobiaAnalytics";
+import { resolveLogger } from "./ZenobiaLogger";
+import { toZenobiaError } from "./ZenobiaErrors";
+import { validateOptions } from "./ZenobiaValidation";
+import {
+  clearPersistedTransfer,
+  loadPersistedTransfer,
+  savePersistedTransfer,
+  transferKey,
+} from "./ZenobiaTransferStorage";
+import {
+  createTransferOnce,
+  endAttempt,
+  getAttemptTransfer,
+} from "./ZenobiaTransferAttempts";
+import {
+  CreateTransferFn,
+  CreateTransferOptions,
+  requestTransfer,
+} from "./ZenobiaTransferRequest";
+
+export interface ClientTransferStatus {
+  status: string;
+  [key: string]: any;
+}
+
+export interface ScanUpdate {
+  type: string;
+  scanType: string;
+  transferId: string;
+  timestamp: number;
+}
+
+export interface TransferSessionOptions extends FunnelTrackingOptions {
+  amount: number;
+  url?: string; // Endpoint used to create a new transfer
+  createTransferOptions?: CreateTransferOptions; // Request options, timeout and retries for `url`
+  createTransfer?: CreateTransferFn; // Create the transfer yourself instead of posting to `url`
+  metadata?: Record<string, any>;
+  isTest?: boolean;
+  transferRequest?: CreateTransferRequestResponse; // Pre-created transfer to listen to
+  onSuccess?: (
+    response: CreateTransferRequestResponse,
+    status: ClientTransferStatus
+  ) => void;
+  onError?: (error: Error) => void;
+  onStatusChange?: (status: TransferStatus) => void;
+  onExpire?: (response: CreateTransferRequestResponse) => void;
+  onScanChange?: (scanned: boolean) => void; // QR scanned / unscanned on the phone
+  persistTransfer?: boolean; // Keep the active transfer in sessionStorage and resume it after a reload
+  reuseTransfer?: boolean; // Reuse the last unexpired transfer for the same amount and metadata
+  maxRegenerations?: number; // New transfers requested on expiry before giving up
+  pollingUrl?: string; // HTTP status endpoint used when the WebSocket keeps failing
+  pollingFallbackAfter?: number; // Failed reconnects before switching to polling
+}
+
+export type TransferTransport = "websocket" | "polling";
+
+export interface TransferSession {
+  status: Accessor<TransferStatus>;
+  qrUrl: Accessor<string>;
+  scanned: Accessor<boolean>;
+  reconnecting: Accessor<boolean>;
+  connected: Accessor<boolean>;
+  transport: Accessor<TransferTransport>;
+  loading: Accessor<boolean>;
+  error: Accessor<string | null>;
+  transferRequest: Accessor<CreateTransferRequestResponse | null>;
+  timeRemaining: Accessor<number | null>; // Seconds until expiry, null if unknown
+  start: () => void; // Connect (and create a transfer if needed); no-op while active
+  cancel: () => void; // Disconnect, reset the connection state and drop the persisted transfer
+  retry: () => void; // Cancel, then start again with a fresh transfer
+  detach: () => void; // Keep listening after the UI goes away, until the transfer settles or expires
+  track: (name: ZenobiaFunnelEventName) => void; // Report a UI funnel event for the current transfer
+}
+
+// Build the App Clip URL encoded in the QR code
+export const getTransferQrUrl = (
+  transferRequestId: string,
+  isTest?: boolean
+): string => {
+  const transferIdNoDashes = transferRequestId.replace(/-/g, "");
+  const base64TransferId = btoa(transferIdNoDashes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  let qrString = `https://zenobiapay.com/clip?id=${base64TransferId}`;
+
+  if (isTest) {
+    qrString += "&type=test";
+  }
+
+  return qrString;
+};
+
+const DEFAULT_MAX_REGENERATIONS = 3;
+const DEFAULT_POLLING_FALLBACK_AFTER = 3;
+
+// The API may send the expiry in seconds or milliseconds since the epoch
+const toExpiryMs = (expiry: number): number =>
+  expiry < 1e12 ? expiry * 1000 : expiry;
+
+// Transfers without an expiry are only reused for this long
+const TRANSFER_MAX_AGE = 30 * 60 * 1000;
+// Don't resume or reuse a transfer that would expire right away
+const RESUME_MIN_REMAINING = 10 * 1000;
+
+const hasTimeLeft = (
+  transfer: CreateTransferRequestResponse,
+  createdAt: number
+): boolean => {
+  const expiresAt = transfer.expiry
+    ? toExpiryMs(transfer.expiry)
+    : createdAt + TRANSFER_MAX_AGE;
+  return expiresAt - Date.now() >= RESUME_MIN_REMAINING;
+};
+
+/**
+ * The transfer persisted for this amount and metadata, if it is still
+ * worth resuming. Stale entries are removed.
+ */
+export function findResumableTransfer(
+  amount: number,
+  metadata?: Record<string, any>
+): CreateTransferRequestResponse | null {
+  const key = transferKey(amount, metadata);
+  const entry = loadPersistedTransfer(key);
+  if (!entry) return null;
+
+  if (!hasTimeLeft(entry.transfer, entry.savedAt)) {
+    clearPersistedTransfer(key);
+    return null;
+  }
+  return entry.transfer;
+}
+
+/**
+ * Headless transfer lifecycle: creates the transfer, listens to it over
+ * WebSocket and exposes its state as signals. Options are read lazily, so
+ * component props can be passed straight through.
+ */
+export function createTransferSession(
+  options: TransferSessionOptions
+): TransferSession {
+  const [status, setStatus] = createSignal<TransferStatus>(
+    TransferStatus.PENDING
+  );
+  const [error, setError] = createSignal<string | null>(null);
+  const [connected, setConnected] = createSignal(false);
+  const [client, setClient] = createSignal<ZenobiaClient | null>(null);
+  const [transferRequest, setTransferRequest] =
+    createSignal<CreateTransferRequestResponse | null>(null);
+  const [loading, setLoading] = createSignal(false);
+  const [scanned, setScanned] = createSignal(false);
+  const [reconnecting, setReconnecting] = createSignal(false);
+  const [now, setNow] = createSignal(Date.now());
+  const [regenerations, setRegenerations] = createSignal(0);
+  const [transport, setTransport] =
+    createSignal<TransferTransport>("websocket");
+  let expiryTimer: ReturnType<typeof setInterval> | undefined;
+  let poller: StatusPoller | undefined;
+  let failedReconnects = 0;
+  let detached = false;
+  let persistedKey: string | undefined;
+  let attemptKey: string | undefined;
+
+  const funnel = createFunnelTracker(options);
+  const logger = () => resolveLogger(options);
+  const track = (name: ZenobiaFunnelEventName) =>
+    untrack(() => funnel.track(name, transferRequest()?.transferRequestId));
+
+  const qrUrl = () => {
+    const transfer = transferRequest();
+    return transfer?.transferRequestId
+      ? getTransferQrUrl(transfer.transferRequestId, options.isTest)
+      : "";
+  };
+
+  const timeRemaining = () => {
+    const expiry = transferRequest()?.expiry;
+    if (!expiry) return null;
+    return Math.max(0, Math.ceil((toExpiryMs(expiry) - now()) / 1000));
+  };
+
+  const stopExpiryTimer = () => {
+    if (expiryTimer) {
+      clearInterval(expiryTimer);
+      expiryTimer = undefined;
+    }
+  };
+
+  const stopPolling = () => {
+    if (poller) {
+      poller.stop();
+      poller = undefined;
+    }
+  };
+
+  const persist = (transfer: CreateTransferRequestResponse) => {
+    if (!options.persistTransfer) return;
+    persistedKey = transferKey(options.amount, options.metadata);
+    savePersistedTransfer(persistedKey, transfer);
+  };
+
+  const forgetPersisted = () => {
+    if (persistedKey) {
+      clearPersistedTransfer(persistedKey);
+      persistedKey = undefined;
+    }
+  };
+
+  // The transfer settled or expired, so there is nothing to resume or
+  // reuse, and the next create is a new attempt with a new idempotency key
+  const forgetTransfer = () => {
+    forgetPersisted();
+    if (attemptKey) {
+      endAttempt(attemptKey);
+      attemptKey = undefined;
+    }
+  };
+
+  const disconnect = () => {
+    stopExpiryTimer();
+    stopPolling();
+    const activeClient = client();
+    if (activeClient) {
+      activeClient.disconnect();
+      setClient(null);
+    }
+  };
+
+  // Handle WebSocket status update
+  const handleStatusUpdate = (transferStatus: ClientTransferStatus) => {
+    logger().debug("Received status update", transferStatus);
+
+    // Convert API status to our enum
+    let currentStatus: TransferStatus;
+    switch (transferStatus.status) {
+      case "SETTLED":
+      case "PAID":
+        currentStatus = TransferStatus.PAID;
+        track("paid");
+        forgetTransfer();
+        if (options.onSuccess && transferRequest()) {
+          options.onSuccess(transferRequest()!, transferStatus);
+        }
+        disconnect();
+        break;
+      case "FAILED":
+        currentStatus = TransferStatus.FAILED;
+        track("failed");
+        forgetTransfer();
+        disconnect();
+        break;
+      case "CANCELLED":
+        currentStatus = TransferStatus.CANCELLED;
+        track("cancelled");
+        forgetTransfer();
+        disconnect();
+        break;
+      default:
+        currentStatus = TransferStatus.PENDING;
+    }
+
+    setStatus(currentStatus);
+
+    if (options.onStatusChange) {
+      options.onStatusChange(currentStatus);
+    }
+  };
+
+  // Give up on the WebSocket and poll the status endpoint instead. Updates
+  // go through the same handleStatusUpdate path as WebSocket messages.
+  const switchToPolling = () => {
+    const activeClient = client();
+    const transfer = transferRequest();
+    if (poller || !activeClient || !transfer || !options.pollingUrl) return;
+
+    logger().warn(
+      `WebSocket failed to reconnect ${failedReconnects} times, falling back to polling`
+    );
+    activeClient.disconnect();
+    setReconnecting(false);
+    setTransport("polling");
+
+    poller = createStatusPoller({
+      url: options.pollingUrl,
+      transferRequestId: transfer.transferRequestId,
+      signature: transfer.signature,
+      onStatus: handleStatusUpdate,
+      onError: (pollError) => logger().warn("Polling error", pollError.message),
+    });
+  };
+
+  const handleReconnectFailure = () => {
+    failedReconnects += 1;
+    if (
+      failedReconnects >=
+      (options.pollingFallbackAfter ?? DEFAULT_POLLING_FALLBACK_AFTER)
+    ) {
+      switchToPolling();
+    }
+  };
+
+  // Handle WebSocket error
+  const handleWebSocketError = (errorMsg: string) => {
+    if (poller) return;
+    logger().error("WebSocket error", errorMsg);
+
+    // Check if this is a disconnection error (common WebSocket disconnection messages)
+    const isDisconnectionError =
+      errorMsg.toLowerCase().includes("disconnect") ||
+      errorMsg.toLowerCase().includes("connection lost") ||
+      errorMsg.toLowerCase().includes("network error") ||
+      errorMsg.toLowerCase().includes("timeout");
+
+    if (isDisconnectionError) {
+      // For disconnection errors, show reconnecting state instead of error
+      if (!reconnecting()) track("reconnecting");
+      setReconnecting(true);
+    } else {
+      // For other errors, set the error but keep the session alive
+      setError(errorMsg);
+      if (options.onError) {
+        options.onError(new Error(errorMsg));
+      }
+    }
+  };
+
+  // Handle WebSocket connection status change
+  const handleConnectionChange = (isConnected: boolean) => {
+    if (poller) return;
+    logger().debug(`WebSocket ${isConnected ? "connected" : "disconnected"}`);
+    setConnected(isConnected);
+
+    if (isConnected && reconnecting()) {
+      track("reconnected");
+    } else if (!isConnected && !reconnecting()) {
+      track("reconnecting");
+    }
+    // Connection restored clears the reconnecting state, losing it sets it
+    setReconnecting(!isConnected);
+    if (isConnected) {
+      failedReconnects = 0;
+    } else {
+      handleReconnectFailure();
+    }
+  };
+
+  // Handle scan update
+  const handleScanUpdate = (scanData: ScanUpdate) => {
+    logger().debug("Scan update received", scanData.scanType);
+    if (scanData.scanType === "scanned") {
+      setScanned(true);
+      track("qr_scanned");
+      options.onScanChange?.(true);
+    } else if (scanData.scanType === "unscanned") {
+      setScanned(false);
+      track("qr_unscanned");
+      options.onScanChange?.(false);
+    }
+  };
+
+  // Request a fresh transfer while regenerations remain, otherwise settle
+  // on the EXPIRED status so the UI can offer a manual refresh
+  const handleExpiry = () => {
+    const expiredTransfer = transferRequest();
+    disconnect();
+    track("expired");
+    forgetTransfer();
+
+    if (expiredTransfer && options.onExpire) {
+      options.onExpire(expiredTransfer);
+    }
+
+    // Nobody is looking at a detached session, so don't replace its QR code
+    const maxRegenerations =
+      options.maxRegenerations ?? DEFAULT_MAX_REGENERATIONS;
+    if (
+      !detached &&
+      (options.url || options.createTransfer) &&
+      !options.transferRequest &&
+      regenerations() < maxRegenerations
+    ) {
+      setRegenerations(regenerations() + 1);
+      start();
+      return;
+    }
+
+    setStatus(TransferStatus.EXPIRED);
+    if (options.onStatusChange) {
+      options.onStatusChange(TransferStatus.EXPIRED);
+    }
+  };
+
+  const startExpiryTimer = () => {
+    stopExpiryTimer();
+    setNow(Date.now());
+    expiryTimer = setInterval(() => {
+      setNow(Date.now());
+      if (timeRemaining() === 0) {
+        handleExpiry();
+      }
+    }, 1000);
+  };
+
+  const listen = (
+    activeClient: ZenobiaClient,
+    transfer: CreateTransferRequestResponse
+  ) => {
+    activeClient.listenToTransfer(
+      transfer.transferRequestId,
+      transfer.signature || "",
+      handleStatusUpdate,
+      handleWebSocketError,
+      handleConnectionChange,
+      handleScanUpdate
+    );
+
+    if (transfer.expiry) {
+      startExpiryTimer();
+    }
+  };
+
+  const resetConnectionState = () => {
+    failedReconnects = 0;
+    setTransport("websocket");
+    setScanned(false);
+    setReconnecting(false);
+    setConnected(false);
+    setError(null);
+  };
+
+  const start = () =>
+    untrack(() => {
+      if (client()) {
+        // Re-attach to a session that was listening in the background
+        detached = false;
+        return;
+      }
+
+      // Reset states for new session
+      resetConnectionState();
+      setStatus(TransferStatus.PENDING);
+
+      const problems = validateOptions(options);
+      if (problems.length > 0) {
+        problems.forEach((problem) => logger().error(problem.message));
+        setError(problems[0].message);
+        options.onError?.(problems[0]);
+        return;
+      }
+
+      const activeClient = new ZenobiaClient(options.isTest);
+      setClient(activeClient);
+
+      const resumable =
+        !options.transferRequest && options.persistTransfer
+          ? findResumableTransfer(options.amount, options.metadata)
+          : null;
+      attemptKey =
+        options.url || options.createTransfer
+          ? `${options.url ?? ""}|${transferKey(
+              options.amount,
+              options.metadata
+            )}`
+          : undefined;
+      const previous =
+        attemptKey && options.reuseTransfer
+          ? getAttemptTransfer(attemptKey)
+          : null;
+      const reusable =
+        previous && hasTimeLeft(previous.transfer, previous.createdAt)
+          ? previous.transfer
+          : null;
+
+      if (options.transferRequest) {
+        // If we have a transfer request, just listen to it
+        setTransferRequest(options.transferRequest);
+        listen(activeClient, options.transferRequest);
+      } else if (resumable) {
+        // Pick up the transfer from before the reload instead of creating
+        // a duplicate
+        logger().debug("Resuming persisted transfer", {
+          transferRequestId: resumable.transferRequestId,
+        });
+        persist(resumable);
+        setTransferRequest(resumable);
+        listen(activeClient, resumable);
+      } else if (reusable) {
+        // Same checkout as last time and the transfer is still valid
+        persist(reusable);
+        setTransferRequest(reusable);
+        listen(activeClient, reusable);
+      } else if (attemptKey) {
+        // If we have a URL or a createTransfer function, create a new transfer
+        setTransferRequest(null);
+        setLoading(true);
+
+        const metadata = options.metadata || {
+          amount: options.amount,
+          statementItems: {
+            name: "Payment",
+            amount: options.amount,
+          },
+        };
+
+        // Concurrent starts for the same checkout share one request
+        createTransferOnce(attemptKey, (idempotencyKey) =>
+          requestTransfer({
+            url: options.url,
+            metadata,
+            idempotencyKey,
+            client: activeClient,
+            createTransfer: options.createTransfer,
+            options: options.createTransferOptions,
+            debug: options.debug,
+          })
+        )
+          .then((created) => {
+            // Ignore transfers that resolve after the session was cancelled
+            if (client() !== activeClient) return;
+
+            setTransferRequest(created);
+            persist(created);
+            track("transfer_created");
+
+            // Listen to the transfer status
+            listen(activeClient, created);
+          })
+          .catch((err) => {
+            if (client() !== activeClient) return;
+
+            const createError = toZenobiaError(err);
+            logger().error("Could not create the transfer", createError);
+            setError(createError.message);
+            options.onError?.(createError);
+          })
+          .finally(() => {
+            setLoading(false);
+          });
+      }
+    });
+
+  const cancel = () =>
+    untrack(() => {
+      // Without reuse, reopening is a new checkout attempt
+      if (attemptKey && !options.reuseTransfer) {
+        endAttempt(attemptKey);
+        attemptKey = undefined;
+      }
+      // The shopper closed it, so a reload must not reopen it
+      forgetPersisted();
+      detached = false;
+      disconnect();
+      resetConnectionState();
+      setRegenerations(0);
+    });
+
+  const retry = () =>
+    untrack(() => {
+      cancel();
+      start();
+    });
+
+  const detach = () =>
+    untrack(() => {
+      if (client()) detached = true;
+    });
+
+  // Cleanup when the owning scope is disposed, unless detached
+  onCleanup(() => {
+    if (!detached) disconnect();
+  });
+
+  return {
+    status,
+    qrUrl,
+    scanned,
+    reconnecting,
+    connected,
+    transport,
+    loading,
+    error,
+    transferRequest,
+    timeRemaining,
+    start,
+    cancel,
+    retry,
+    detach,
+    track,
+  };
+}
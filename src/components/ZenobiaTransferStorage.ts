@@ -0,0 +1,84 @@
+import type { CreateTransferRequestResponse } from "./ZenobiaPaymentButton";
+
+const STORAGE_PREFIX = "zenobia-pay:transfer:";
+
+interface PersistedTransfer {
+  transfer: CreateTransferRequestResponse;
+  savedAt: number; // Milliseconds since the epoch
+}
+
+// JSON with sorted object keys, so equal metadata always hashes the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+// 32-bit FNV-1a; only used to tell checkouts apart, not for security
+const hash = (input: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+};
+
+// Identifies a checkout by what is being paid for
+export const transferKey = (
+  amount: number,
+  metadata?: Record<string, any>
+): string => hash(stableStringify({ amount, metadata: metadata ?? null }));
+
+// sessionStorage throws in some private modes and sandboxed iframes
+const getStorage = (): Storage | null => {
+  try {
+    return typeof sessionStorage === "undefined" ? null : sessionStorage;
+  } catch {
+    return null;
+  }
+};
+
+export function savePersistedTransfer(
+  key: string,
+  transfer: CreateTransferRequestResponse
+) {
+  const entry: PersistedTransfer = { transfer, savedAt: Date.now() };
+  try {
+    getStorage()?.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+  } catch {
+    // Quota exceeded or storage disabled; persistence is best effort
+  }
+}
+
+export function loadPersistedTransfer(key: string): PersistedTransfer | null {
+  try {
+    const raw = getStorage()?.getItem(STORAGE_PREFIX + key);
+    if (!raw) return null;
+
+    const entry = JSON.parse(raw) as PersistedTransfer;
+    return entry?.transfer?.transferRequestId ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearPersistedTransfer(key: string) {
+  try {
+    getStorage()?.removeItem(STORAGE_PREFIX + key);
+  } catch {
+    // Nothing to clean up
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { validateOptions } from "./ZenobiaValidation";
+
+const fields = (options: Parameters<typeof validateOptions>[0]) =>
+  validateOptions(options).map((problem) => `${problem.code}:${problem.field}`);
+
+describe("validateOptions", () => {
+  it("accepts a positive amount with an endpoint", () => {
+    expect(fields({ amount: 1299, url: "/pay", currency: "EUR" })).toEqual([]);
+  });
+
+  it("requires a positive integer amount", () => {
+    expect(fields({ amount: 0, url: "/pay" })).toEqual([
+      "invalid_amount:amount",
+    ]);
+    expect(fields({ amount: 12.99, url: "/pay" })).toEqual([
+      "invalid_amount:amount",
+    ]);
+  });
+
+  it("rejects codes that are not currencies", () => {
+    for (const currency of ["US", "dollars", "ABC"]) {
+      expect(fields({ amount: 100, url: "/pay", currency })).toEqual([
+        "invalid_currency:currency",
+      ]);
+    }
+  });
+});
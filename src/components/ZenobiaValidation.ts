@@ -0,0 +1,257 @@
+import { Accessor, createEffect, createMemo, on } from "solid-js";
+import type { CreateTransferRequestResponse } from "./ZenobiaPaymentButton";
+import type { CreateTransferFn } from "./ZenobiaTransferRequest";
+import {
+  ZenobiaError,
+  ZenobiaErrorCode,
+  ZenobiaResponseError,
+} from "./ZenobiaErrors";
+import { isDevelopment } from "./ZenobiaEnv";
+import { isCurrencyCode } from "./ZenobiaCurrency";
+import { LoggingOptions, resolveLogger } from "./ZenobiaLogger";
+
+export class ZenobiaValidationError extends ZenobiaError {
+  readonly field: string; // Option or response field that failed
+
+  constructor(code: ZenobiaErrorCode, field: string, message: string) {
+    super(code, message);
+    this.name = "ZenobiaValidationError";
+    this.field = field;
+  }
+}
+
+// Options checked before a transfer is created; a subset of the button,
+// modal, session and init options
+export interface ValidatedOptions {
+  amount: number;
+  url?: string;
+  createTransfer?: CreateTransferFn;
+  transferRequest?: CreateTransferRequestResponse;
+  metadata?: Record<string, any>;
+  currency?: string;
+  qrCodeSize?: number;
+  autoCloseDelay?: number;
+  maxRegenerations?: number;
+  pollingFallbackAfter?: number;
+  debug?: boolean;
+}
+
+// Development builds, or `debug: true` in production, append a hint on how
+// to fix the problem
+export const withHint = (
+  message: string,
+  hint: string,
+  debug?: boolean
+): string => (debug || isDevelopment() ? `${message}. ${hint}` : message);
+
+const describe = (value: unknown): string => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonNegativeInteger = (value: unknown): boolean =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const isPositiveInteger = (value: unknown): boolean =>
+  isNonNegativeInteger(value) && (value as number) > 0;
+
+/**
+ * Check options before a transfer is created. Returns every problem found,
+ * so development builds can report them all at once.
+ */
+export function validateOptions(
+  options: ValidatedOptions
+): ZenobiaValidationError[] {
+  const errors: ZenobiaValidationError[] = [];
+  const fail = (
+    code: ZenobiaErrorCode,
+    field: string,
+    message: string,
+    hint: string
+  ) =>
+    errors.push(
+      new ZenobiaValidationError(
+        code,
+        field,
+        withHint(message, hint, options.debug)
+      )
+    );
+
+  if (!isPositiveInteger(options.amount)) {
+    fail(
+      "invalid_amount",
+      "amount",
+      "amount must be a positive integer",
+      `Pass the amount in minor units, e.g. 1299 for 12.99; got ${describe(
+        options.amount
+      )}`
+    );
+  }
+
+  if (options.transferRequest) {
+    if (typeof options.transferRequest.transferRequestId !== "string") {
+      fail(
+        "invalid_option",
+        "transferRequest",
+        "transferRequest is missing transferRequestId",
+        "Pass the response of your create-transfer endpoint unchanged"
+      );
+    }
+  } else if (!options.url && !options.createTransfer) {
+    fail(
+      "missing_endpoint",
+      "url",
+      "url is required to create a transfer",
+      "Pass the endpoint that creates transfers, a createTransfer function or a pre-created transferRequest"
+    );
+  }
+
+  if (options.url) {
+    try {
+      new URL(options.url, window.location.href);
+    } catch {
+      fail(
+        "invalid_url",
+        "url",
+        "url is not a valid URL",
+        `Got ${describe(options.url)}`
+      );
+    }
+  }
+
+  if (options.metadata !== undefined) {
+    if (!isObject(options.metadata)) {
+      fail(
+        "invalid_metadata",
+        "metadata",
+        "metadata must be an object",
+        `Got ${describe(options.metadata)}`
+      );
+    } else {
+      try {
+        JSON.stringify(options.metadata);
+      } catch (error) {
+        fail(
+          "invalid_metadata",
+          "metadata",
+          "metadata must be JSON-serializable",
+          `Remove circular references, BigInts and DOM nodes (${
+            error instanceof Error ? error.message : error
+          })`
+        );
+      }
+    }
+  }
+
+  if (options.currency !== undefined && !isCurrencyCode(options.currency)) {
+    fail(
+      "invalid_currency",
+      "currency",
+      "currency must be an ISO 4217 code",
+      `Use a currency code such as "USD"; got ${describe(options.currency)}`
+    );
+  }
+
+  const counts = [
+    "qrCodeSize",
+    "autoCloseDelay",
+    "maxRegenerations",
+    "pollingFallbackAfter",
+  ] as const;
+  for (const field of counts) {
+    const value = options[field];
+    if (value !== undefined && !isNonNegativeInteger(value)) {
+      fail(
+        "invalid_option",
+        field,
+        `${field} must be a non-negative integer`,
+        `Got ${describe(value)}`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a component's options as they change. Each new set of problems is
+ * logged and the first one passed to onError; render amounts only while the
+ * returned accessor is true.
+ */
+export function createOptionsCheck(
+  options: ValidatedOptions &
+    LoggingOptions & { onError?: (error: Error) => void }
+): Accessor<boolean> {
+  const problems = createMemo(() => validateOptions(options));
+  const messages = createMemo(() =>
+    problems()
+      .map((problem) => problem.message)
+      .join("\n")
+  );
+
+  createEffect(
+    on(messages, (current) => {
+      if (!current) return;
+      const logger = resolveLogger(options);
+      problems().forEach((problem) => logger.error(problem.message));
+      options.onError?.(problems()[0]);
+    })
+  );
+
+  return createMemo(() => messages() === "");
+}
+
+/**
+ * Check a create-transfer response and pick the fields we use. Expiry may
+ * come as a number or a numeric string.
+ */
+export function validateTransferResponse(
+  body: unknown,
+  debug?: boolean
+): CreateTransferRequestResponse {
+  const invalid = (message: string) =>
+    new ZenobiaResponseError(
+      withHint(
+        message,
+        `Your create-transfer endpoint returned ${describe(body)}`,
+        debug
+      ),
+      body
+    );
+
+  if (!isObject(body)) {
+    throw invalid("Create transfer response is not a JSON object");
+  }
+
+  const { transferRequestId, merchantId, signature } = body;
+  if (typeof transferRequestId !== "string" || transferRequestId === "") {
+    throw invalid("Create transfer response is missing transferRequestId");
+  }
+  if (signature !== undefined && typeof signature !== "string") {
+    throw invalid("signature must be a string");
+  }
+  if (merchantId !== undefined && typeof merchantId !== "string") {
+    throw invalid("merchantId must be a string");
+  }
+
+  let expiry: number | undefined;
+  if (body.expiry !== undefined && body.expiry !== null) {
+    expiry = Number(body.expiry);
+    if (!Number.isFinite(expiry)) {
+      throw invalid("expiry must be a timestamp");
+    }
+  }
+
+  return {
+    transferRequestId,
+    merchantId: merchantId as string | undefined,
+    signature: signature as string | undefined,
+    expiry,
+  };
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from "vitest";
+import "./element-bundle";
+
+const mount = (attributes: Record<string, string>) => {
+  const el = document.createElement("zenobia-pay-button");
+  for (const [name, value] of Object.entries(attributes)) {
+    el.setAttribute(name, value);
+  }
+  const errors: Error[] = [];
+  el.addEventListener("zenobia:error", (event) =>
+    errors.push((event as CustomEvent<{ error: Error }>).detail.error)
+  );
+  document.body.appendChild(el);
+  return { el, errors };
+};
+
+describe("<zenobia-pay-button>", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("renders the button when amount and url are set", () => {
+    const { el, errors } = mount({ amount: "1299", url: "/create-transfer" });
+
+    expect(errors).toEqual([]);
+    expect(el.shadowRoot?.querySelector("button")).not.toBeNull();
+  });
+
+  it("adds button-class next to the built-in classes", () => {
+    const { el } = mount({
+      amount: "1299",
+      url: "/create-transfer",
+      "button-class": "primary large",
+    });
+
+    const button = el.shadowRoot?.querySelector("button");
+    expect([...button!.classList]).toEqual([
+      "zenobia-payment-button",
+      "primary",
+      "large",
+    ]);
+  });
+
+  it("reports a missing amount instead of rendering a button", () => {
+    const { el, errors } = mount({ url: "/create-transfer" });
+
+    expect(errors.map((error) => (error as any).field)).toEqual(["amount"]);
+    expect(el.shadowRoot?.querySelector("button")).toBeNull();
+  });
+
+  it("reports a missing url instead of rendering a button", () => {
+    const { el, errors } = mount({ amount: "1299" });
+
+    expect(errors.map((error) => (error as any).field)).toEqual(["url"]);
+    expect(el.shadowRoot?.querySelector("button")).toBeNull();
+  });
+});
@@ -0,0 +1,278 @@
+import { render } from "solid-js/web";
+import {
+  Accessor,
+  JSX,
+  Setter,
+  Show,
+  createEffect,
+  createMemo,
+  createSignal,
+} from "solid-js";
+import { ZenobiaPaymentButton } from "./components/ZenobiaPaymentButton";
+import { ZenobiaPaymentModal } from "./components/ZenobiaPaymentModal";
+import { adoptZenobiaStyles } from "./components/ZenobiaShadowRoot";
+import {
+  attributeLogger,
+  toBoolean,
+  toJson,
+  toNumber,
+  toQrPosition,
+  toTheme,
+} from "./components/ZenobiaAttributes";
+import {
+  ZenobiaValidationError,
+  validateOptions,
+} from "./components/ZenobiaValidation";
+import type { ZenobiaMessages } from "./components/ZenobiaMessages";
+
+type Attributes = Record<string, string | null>;
+
+// The attributes every element needs before it can render
+interface RequiredOptions {
+  amount: number;
+  url: string;
+}
+
+// Attributes shared by <zenobia-pay-button> and <zenobia-pay-modal>
+const COMMON_ATTRIBUTES = [
+  "amount",
+  "url",
+  "metadata",
+  "test",
+  "discount-amount",
+  "qr-code-size",
+  "hide-qr-on-mobile",
+  "show-cashback",
+  "max-regenerations",
+  "auto-close-delay",
+  "polling-url",
+  "polling-fallback-after",
+  "currency",
+  "locale",
+  "messages",
+  "theme",
+  "close-on-escape",
+  "close-on-overlay-click",
+  "listen-after-close",
+  "confirm-close-when-scanned",
+  "persist-transfer",
+  "reuse-transfer",
+  "debug",
+];
+
+/**
+ * Base for the custom elements: mirrors observed attributes into a signal
+ * and renders the Solid component into the element's own shadow root.
+ */
+abstract class ZenobiaElement extends HTMLElement {
+  private attributeValues: Accessor<Attributes>;
+  private setAttributeValues: Setter<Attributes>;
+  private dispose?: () => void;
+
+  constructor() {
+    super();
+    [this.attributeValues, this.setAttributeValues] = createSignal<Attributes>(
+      {}
+    );
+  }
+
+  protected abstract renderContent(
+    required: Accessor<RequiredOptions>
+  ): JSX.Element;
+
+  // amount and url are required: without them nothing renders and the
+  // problem goes to the error event instead
+  private renderChecked(): JSX.Element {
+    const required = createMemo(() => ({
+      amount: toNumber(this.attr("amount")) as number,
+      url: this.attr("url") ?? "",
+    }));
+    const problem = createMemo<ZenobiaValidationError | undefined>(
+      () =>
+        validateOptions({
+          ...required(),
+          debug: toBoolean(this.attr("debug")),
+        }).find(({ field }) => field === "amount" || field === "url"),
+      undefined,
+      { equals: (a, b) => a?.message === b?.message }
+    );
+
+    createEffect(() => {
+      const error = problem();
+      if (error) {
+        attributeLogger.error(error.message, this);
+        this.emit("error", { error });
+      }
+    });
+
+    return <Show when={!problem()}>{this.renderContent(required)}</Show>;
+  }
+
+  attributeChangedCallback(
+    name: string,
+    _old: string | null,
+    value: string | null
+  ) {
+    this.setAttributeValues((current) => ({ ...current, [name]: value }));
+  }
+
+  connectedCallback() {
+    if (this.dispose) return;
+
+    let root = this.shadowRoot;
+    if (!root) {
+      root = this.attachShadow({ mode: "open" });
+      adoptZenobiaStyles(root);
+    }
+    this.dispose = render(() => this.renderChecked(), root);
+  }
+
+  disconnectedCallback() {
+    // Moving the element re-connects it in the same task; keep it mounted
+    queueMicrotask(() => {
+      if (!this.isConnected && this.dispose) {
+        this.dispose();
+        this.dispose = undefined;
+      }
+    });
+  }
+
+  protected attr(name: string): string | null {
+    return this.attributeValues()[name] ?? null;
+  }
+
+  protected emit<T>(type: string, detail: T) {
+    this.dispatchEvent(
+      new CustomEvent(`zenobia:${type}`, {
+        detail,
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+}
+
+class ZenobiaPayButtonElement extends ZenobiaElement {
+  static observedAttributes = [
+    ...COMMON_ATTRIBUTES,
+    "button-text",
+    "button-class",
+    "qr-position",
+  ];
+
+  protected renderContent(required: Accessor<RequiredOptions>) {
+    return (
+      <ZenobiaPaymentButton
+        amount={required().amount}
+        url={required().url}
+        metadata={toJson<Record<string, any>>(
+          "metadata",
+          this.attr("metadata")
+        )}
+        isTest={toBoolean(this.attr("test"))}
+        buttonText={this.attr("button-text") ?? undefined}
+        buttonClass={this.attr("button-class") ?? undefined}
+        qrPosition={toQrPosition(this.attr("qr-position"))}
+        discountAmount={toNumber(this.attr("discount-amount"))}
+        qrCodeSize={toNumber(this.attr("qr-code-size"))}
+        hideQrOnMobile={toBoolean(this.attr("hide-qr-on-mobile"))}
+        showCashback={toBoolean(this.attr("show-cashback"))}
+        maxRegenerations={toNumber(this.attr("max-regenerations"))}
+        autoCloseDelay={toNumber(this.attr("auto-close-delay"))}
+        pollingUrl={this.attr("polling-url") ?? undefined}
+        pollingFallbackAfter={toNumber(this.attr("polling-fallback-after"))}
+        currency={this.attr("currency") ?? undefined}
+        locale={this.attr("locale") ?? undefined}
+        messages={toJson<Partial<ZenobiaMessages>>(
+          "messages",
+          this.attr("messages")
+        )}
+        theme={toTheme(this.attr("theme"))}
+        closeOnEscape={toBoolean(this.attr("close-on-escape"))}
+        closeOnOverlayClick={toBoolean(this.attr("close-on-overlay-click"))}
+        listenAfterClose={toBoolean(this.attr("listen-after-close"))}
+        confirmCloseWhenScanned={toBoolean(
+          this.attr("confirm-close-when-scanned")
+        )}
+        persistTransfer={toBoolean(this.attr("persist-transfer"))}
+        reuseTransfer={toBoolean(this.attr("reuse-transfer"))}
+        debug={toBoolean(this.attr("debug"))}
+        onSuccess={(response, status) =>
+          this.emit("success", { response, status })
+        }
+        onError={(error) => this.emit("error", { error })}
+        onStatusChange={(status) => this.emit("statuschange", { status })}
+        onScanChange={(scanned) => this.emit("scanned", { scanned })}
+        onAbandon={(transferRequestId) =>
+          this.emit("abandon", { transferRequestId })
+        }
+      />
+    );
+  }
+}
+
+class ZenobiaPayModalElement extends ZenobiaElement {
+  static observedAttributes = [...COMMON_ATTRIBUTES, "open"];
+
+  // Reflect closes from inside the modal (close button, Escape, overlay)
+  private handleClose = () => {
+    this.removeAttribute("open");
+    this.emit("close", undefined);
+  };
+
+  protected renderContent(required: Accessor<RequiredOptions>) {
+    return (
+      <ZenobiaPaymentModal
+        isOpen={toBoolean(this.attr("open")) ?? false}
+        onClose={this.handleClose}
+        amount={required().amount}
+        url={required().url}
+        metadata={toJson<Record<string, any>>(
+          "metadata",
+          this.attr("metadata")
+        )}
+        isTest={toBoolean(this.attr("test"))}
+        discountAmount={toNumber(this.attr("discount-amount"))}
+        qrCodeSize={toNumber(this.attr("qr-code-size"))}
+        hideQrOnMobile={toBoolean(this.attr("hide-qr-on-mobile"))}
+        showCashback={toBoolean(this.attr("show-cashback"))}
+        maxRegenerations={toNumber(this.attr("max-regenerations"))}
+        autoCloseDelay={toNumber(this.attr("auto-close-delay"))}
+        pollingUrl={this.attr("polling-url") ?? undefined}
+        pollingFallbackAfter={toNumber(this.attr("polling-fallback-after"))}
+        currency={this.attr("currency") ?? undefined}
+        locale={this.attr("locale") ?? undefined}
+        messages={toJson<Partial<ZenobiaMessages>>(
+          "messages",
+          this.attr("messages")
+        )}
+        theme={toTheme(this.attr("theme"))}
+        closeOnEscape={toBoolean(this.attr("close-on-escape"))}
+        closeOnOverlayClick={toBoolean(this.attr("close-on-overlay-click"))}
+        listenAfterClose={toBoolean(this.attr("listen-after-close"))}
+        confirmCloseWhenScanned={toBoolean(
+          this.attr("confirm-close-when-scanned")
+        )}
+        persistTransfer={toBoolean(this.attr("persist-transfer"))}
+        reuseTransfer={toBoolean(this.attr("reuse-transfer"))}
+        debug={toBoolean(this.attr("debug"))}
+        onSuccess={(response, status) =>
+          this.emit("success", { response, status })
+        }
+        onError={(error) => this.emit("error", { error })}
+        onStatusChange={(status) => this.emit("statuschange", { status })}
+        onScanChange={(scanned) => this.emit("scanned", { scanned })}
+        onAbandon={(transferRequestId) =>
+          this.emit("abandon", { transferRequestId })
+        }
+      />
+    );
+  }
+}
+
+if (!customElements.get("zenobia-pay-button")) {
+  customElements.define("zenobia-pay-button", ZenobiaPayButtonElement);
+}
+if (!customElements.get("zenobia-pay-modal")) {
+  customElements.define("zenobia-pay-modal", ZenobiaPayModalElement);
+}
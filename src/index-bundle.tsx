@@ -1,51 +1,331 @@
 import { render } from "solid-js/web";
+import { createStore } from "solid-js/store";
 import { ZenobiaPaymentButton } from "./components/ZenobiaPaymentButton";
+import { createMountRoot } from "./components/ZenobiaShadowRoot";
+import {
+  createEmitter,
+  ZenobiaInstanceEvents,
+  ZenobiaPayInstance,
+} from "./components/ZenobiaInstance";
+import {
+  attributeLogger,
+  toBoolean,
+  toJson,
+  toNumber,
+  toQrPosition,
+  toTheme,
+} from "./components/ZenobiaAttributes";
 import type {
   CreateTransferRequestResponse,
+  QrPosition,
   TransferStatus,
+  ZenobiaPaymentButtonApi,
 } from "./components/ZenobiaPaymentButton";
+import type { ZenobiaMessages } from "./components/ZenobiaMessages";
+import type { ZenobiaTheme } from "./components/ZenobiaTheme";
+import type {
+  ZenobiaAnalyticsAdapter,
+  ZenobiaFunnelEvent,
+} from "./components/ZenobiaAnalytics";
+import {
+  ZenobiaLogger,
+  createLogger,
+  resolveLogger,
+} from "./components/ZenobiaLogger";
+import {
+  ZenobiaValidationError,
+  validateOptions,
+  withHint,
+} from "./components/ZenobiaValidation";
+import type {
+  CreateTransferFn,
+  CreateTransferOptions,
+} from "./components/ZenobiaTransferRequest";
 
 type InitOpts = {
   amount: number;
+  discountAmount?: number;
   target: string | HTMLElement;
   metadata: Record<string, any>;
   url: string;
+  createTransferOptions?: CreateTransferOptions;
+  createTransfer?: CreateTransferFn;
   buttonText?: string;
-  buttonClass?: string;
+  buttonClass?: string; // Only styled by the page with shadow: false; use ::part(button) otherwise
   qrCodeSize?: number;
+  isTest?: boolean;
+  qrPosition?: QrPosition;
+  hideQrOnMobile?: boolean;
+  showCashback?: boolean;
   onSuccess?: (res: CreateTransferRequestResponse) => void;
   onError?: (err: Error) => void;
   onStatusChange?: (status: TransferStatus) => void;
+  onExpire?: (res: CreateTransferRequestResponse) => void;
+  onEvent?: (event: ZenobiaFunnelEvent) => void;
+  analytics?: ZenobiaAnalyticsAdapter;
+  onAbandon?: (transferRequestId: string) => void;
+  listenAfterClose?: boolean;
+  confirmCloseWhenScanned?: boolean;
+  persistTransfer?: boolean;
+  reuseTransfer?: boolean;
+  logger?: ZenobiaLogger;
+  debug?: boolean;
+  maxRegenerations?: number;
+  autoCloseDelay?: number;
+  pollingUrl?: string;
+  pollingFallbackAfter?: number;
+  currency?: string;
+  locale?: string;
+  messages?: Partial<ZenobiaMessages>;
+  closeOnEscape?: boolean;
+  closeOnOverlayClick?: boolean;
+  theme?: ZenobiaTheme;
+  shadow?: boolean; // Render inside a shadow root (default true)
 };
 
-function initZenobiaPay(opts: InitOpts) {
+function initZenobiaPay(
+  opts: InitOpts
+): ZenobiaPayInstance<InitOpts> | undefined {
   const targetEl =
     typeof opts.target === "string"
       ? document.querySelector(opts.target)
       : opts.target;
 
   if (!targetEl) {
-    console.error("[zenobia-pay] target element not found:", opts.target);
+    const error = new ZenobiaValidationError(
+      "invalid_target",
+      "target",
+      withHint(
+        "Target element not found",
+        `Check that ${JSON.stringify(
+          String(opts.target)
+        )} matches an element when init runs`,
+        opts.debug
+      )
+    );
+    resolveLogger(opts).error(error.message);
+    opts.onError?.(error);
     return;
   }
 
-  render(
+  // Surface option mistakes at init; the session reports them to onError
+  // once the payment starts
+  validateOptions(opts).forEach((problem) =>
+    resolveLogger(opts).warn(problem.message)
+  );
+
+  // Options live in a store so update() reaches the mounted button
+  const [state, setState] = createStore<InitOpts>({ ...opts });
+  const events = createEmitter<ZenobiaInstanceEvents>(resolveLogger(opts));
+  const mountRoot = createMountRoot(targetEl, opts.shadow ?? true);
+  let buttonApi: ZenobiaPaymentButtonApi | undefined;
+  let currentStatus: TransferStatus | null = null;
+
+  const dispose = render(
     () => (
       <ZenobiaPaymentButton
-        url={opts.url}
-        amount={opts.amount}
-        metadata={opts.metadata}
-        buttonText={opts.buttonText}
-        buttonClass={opts.buttonClass}
-        qrCodeSize={opts.qrCodeSize}
-        onSuccess={opts.onSuccess}
-        onError={opts.onError}
-        onStatusChange={opts.onStatusChange}
+        url={state.url}
+        createTransferOptions={state.createTransferOptions}
+        createTransfer={state.createTransfer}
+        amount={state.amount}
+        discountAmount={state.discountAmount}
+        metadata={state.metadata}
+        buttonText={state.buttonText}
+        buttonClass={state.buttonClass}
+        qrCodeSize={state.qrCodeSize}
+        isTest={state.isTest}
+        qrPosition={state.qrPosition}
+        hideQrOnMobile={state.hideQrOnMobile}
+        showCashback={state.showCashback}
+        onSuccess={(response, status) => {
+          state.onSuccess?.(response);
+          events.emit("success", { response, status });
+        }}
+        onError={(error) => {
+          state.onError?.(error);
+          events.emit("error", error);
+        }}
+        onStatusChange={(status) => {
+          currentStatus = status;
+          state.onStatusChange?.(status);
+          events.emit("statuschange", status);
+        }}
+        onExpire={(response) => {
+          state.onExpire?.(response);
+          events.emit("expire", response);
+        }}
+        onEvent={state.onEvent}
+        analytics={state.analytics}
+        onAbandon={state.onAbandon}
+        listenAfterClose={state.listenAfterClose}
+        confirmCloseWhenScanned={state.confirmCloseWhenScanned}
+        persistTransfer={state.persistTransfer}
+        reuseTransfer={state.reuseTransfer}
+        logger={state.logger}
+        debug={state.debug}
+        maxRegenerations={state.maxRegenerations}
+        autoCloseDelay={state.autoCloseDelay}
+        pollingUrl={state.pollingUrl}
+        pollingFallbackAfter={state.pollingFallbackAfter}
+        currency={state.currency}
+        locale={state.locale}
+        messages={state.messages}
+        closeOnEscape={state.closeOnEscape}
+        closeOnOverlayClick={state.closeOnOverlayClick}
+        theme={state.theme}
+        onOpen={() => {
+          currentStatus = null;
+          events.emit("open", undefined);
+        }}
+        onClose={() => events.emit("close", undefined)}
+        ref={(api) => (buttonApi = api)}
       />
     ),
-    targetEl
+    mountRoot
+  );
+
+  return {
+    open: () => buttonApi?.open(),
+    close: () => buttonApi?.close(),
+    update: (next) => setState(next),
+    destroy: () => {
+      dispose();
+      events.clear();
+      if (mountRoot instanceof ShadowRoot) {
+        mountRoot.host.remove();
+      }
+    },
+    getStatus: () => currentStatus,
+    on: events.on,
+  };
+}
+
+const AUTO_MOUNT_SELECTOR = "[data-zenobia-pay]";
+
+// Buttons mounted from data-zenobia-pay placeholders
+const autoMounted = new Map<HTMLElement, ZenobiaPayInstance<InitOpts>>();
+
+// Placeholder options before the required attributes are checked
+type DataOpts = Omit<InitOpts, "amount"> & { amount?: number };
+
+// Read the options of a placeholder from its data-* attributes, e.g.
+// <div data-zenobia-pay data-amount="1299" data-url="..."></div>
+function readDataOptions(el: HTMLElement): DataOpts {
+  const data = (name: string) => el.getAttribute(`data-${name}`);
+
+  return {
+    target: el,
+    amount: toNumber(data("amount")),
+    url: data("url") ?? "",
+    metadata:
+      toJson<Record<string, any>>("data-metadata", data("metadata")) ?? {},
+    buttonText: data("button-text") ?? undefined,
+    buttonClass: data("button-class") ?? undefined,
+    qrCodeSize: toNumber(data("qr-code-size")),
+    isTest: toBoolean(data("test")),
+    qrPosition: toQrPosition(data("qr-position")),
+    maxRegenerations: toNumber(data("max-regenerations")),
+    autoCloseDelay: toNumber(data("auto-close-delay")),
+    pollingUrl: data("polling-url") ?? undefined,
+    pollingFallbackAfter: toNumber(data("polling-fallback-after")),
+    currency: data("currency") ?? undefined,
+    locale: data("locale") ?? undefined,
+    messages: toJson<Partial<ZenobiaMessages>>(
+      "data-messages",
+      data("messages")
+    ),
+    closeOnEscape: toBoolean(data("close-on-escape")),
+    closeOnOverlayClick: toBoolean(data("close-on-overlay-click")),
+    theme: toTheme(data("theme")),
+    shadow: toBoolean(data("shadow")),
+    listenAfterClose: toBoolean(data("listen-after-close")),
+    confirmCloseWhenScanned: toBoolean(data("confirm-close-when-scanned")),
+    persistTransfer: toBoolean(data("persist-transfer")),
+    reuseTransfer: toBoolean(data("reuse-transfer")),
+    debug: toBoolean(data("debug")),
+  };
+}
+
+const dispatch = (el: HTMLElement, type: string, detail: unknown) =>
+  el.dispatchEvent(
+    new CustomEvent(`zenobia:${type}`, { detail, bubbles: true })
   );
+
+function mountPlaceholder(el: HTMLElement) {
+  if (autoMounted.has(el)) return;
+
+  const opts = readDataOptions(el);
+  if (!opts.url) {
+    attributeLogger.error("data-url is required on", el);
+    return;
+  }
+  const { amount } = opts;
+  if (amount === undefined || !Number.isInteger(amount) || amount <= 0) {
+    attributeLogger.error(
+      withHint(
+        "data-amount is required and must be a positive integer",
+        `Give the amount in minor units, e.g. data-amount="1299" for 12.99; got ${JSON.stringify(
+          el.getAttribute("data-amount")
+        )}`,
+        true
+      ),
+      el
+    );
+    return;
+  }
+
+  const instance = initZenobiaPay({ ...opts, amount });
+  if (!instance) return;
+
+  // No-code pages can listen for the outcome on the placeholder itself
+  instance.on("success", (detail) => dispatch(el, "success", detail));
+  instance.on("error", (error) => dispatch(el, "error", { error }));
+  instance.on("statuschange", (status) =>
+    dispatch(el, "statuschange", { status })
+  );
+  autoMounted.set(el, instance);
+}
+
+function mountAll(root: ParentNode) {
+  if (root instanceof HTMLElement && root.matches(AUTO_MOUNT_SELECTOR)) {
+    mountPlaceholder(root);
+  }
+  root
+    .querySelectorAll<HTMLElement>(AUTO_MOUNT_SELECTOR)
+    .forEach(mountPlaceholder);
+}
+
+function unmountDetached() {
+  autoMounted.forEach((instance, el) => {
+    if (!el.isConnected) {
+      instance.destroy();
+      autoMounted.delete(el);
+    }
+  });
+}
+
+function startAutoMount() {
+  mountAll(document);
+
+  // Pick up placeholders added later (SPAs, page builders) and clean up
+  // the ones that were removed
+  new MutationObserver((mutations) => {
+    let removed = false;
+    for (const mutation of mutations) {
+      mutation.addedNodes.forEach((node) => {
+        if (node instanceof HTMLElement) mountAll(node);
+      });
+      removed ||= mutation.removedNodes.length > 0;
+    }
+    if (removed) unmountDetached();
+  }).observe(document.documentElement, { childList: true, subtree: true });
+}
+
+if (document.readyState === "loading") {
+  document.addEventListener("DOMContentLoaded", startAutoMount);
+} else {
+  startAutoMount();
 }
 
 // expose it globally
-(window as any).ZenobiaPay = { init: initZenobiaPay };
+(window as any).ZenobiaPay = { init: initZenobiaPay, createLogger };
@@ -1,2 +1,12 @@
 export * from "./components/ZenobiaPaymentButton";
 export * from "./components/ZenobiaPaymentModal";
+export * from "./components/ZenobiaTransferSession";
+export * from "./components/ZenobiaStatusPoller";
+export * from "./components/ZenobiaMessages";
+export * from "./components/ZenobiaCurrency";
+export * from "./components/ZenobiaTheme";
+export * from "./components/ZenobiaAnalytics";
+export * from "./components/ZenobiaLogger";
+export * from "./components/ZenobiaErrors";
+export * from "./components/ZenobiaTransferRequest";
+export * from "./components/ZenobiaValidation";
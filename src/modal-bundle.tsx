@@ -1,19 +1,48 @@
 import { render } from "solid-js/web";
+import { createStore } from "solid-js/store";
 import { ZenobiaPaymentModal } from "./components/ZenobiaPaymentModal";
 import { zenobiaPaymentStyles } from "./components/ZenobiaPaymentStyles";
+import { createMountRoot } from "./components/ZenobiaShadowRoot";
+import {
+  createEmitter,
+  ZenobiaInstanceEvents,
+  ZenobiaPayInstance,
+} from "./components/ZenobiaInstance";
 import type {
   TransferStatus,
   CreateTransferRequestResponse,
 } from "./components/ZenobiaPaymentButton";
+import type { ZenobiaMessages } from "./components/ZenobiaMessages";
+import type { ZenobiaTheme } from "./components/ZenobiaTheme";
+import type {
+  ZenobiaAnalyticsAdapter,
+  ZenobiaFunnelEvent,
+} from "./components/ZenobiaAnalytics";
+import {
+  ZenobiaLogger,
+  createLogger,
+  resolveLogger,
+} from "./components/ZenobiaLogger";
+import {
+  ZenobiaValidationError,
+  validateOptions,
+  withHint,
+} from "./components/ZenobiaValidation";
+import type {
+  CreateTransferFn,
+  CreateTransferOptions,
+} from "./components/ZenobiaTransferRequest";
 
 interface InitModalOpts {
   isOpen: boolean;
-  onClose: () => void;
+  onClose?: () => void;
   amount: number;
   discountAmount?: number;
   qrCodeSize?: number;
   isTest?: boolean;
   url?: string;
+  createTransferOptions?: CreateTransferOptions;
+  createTransfer?: CreateTransferFn;
   metadata?: Record<string, any>;
   transferRequest?: CreateTransferRequestResponse;
   hideQrOnMobile?: boolean;
@@ -21,6 +50,27 @@ interface InitModalOpts {
   onSuccess?: (response: CreateTransferRequestResponse, status: any) => void;
   onError?: (err: Error) => void;
   onStatusChange?: (status: TransferStatus) => void;
+  onExpire?: (res: CreateTransferRequestResponse) => void;
+  onEvent?: (event: ZenobiaFunnelEvent) => void;
+  analytics?: ZenobiaAnalyticsAdapter;
+  onAbandon?: (transferRequestId: string) => void;
+  listenAfterClose?: boolean;
+  confirmCloseWhenScanned?: boolean;
+  persistTransfer?: boolean;
+  reuseTransfer?: boolean;
+  logger?: ZenobiaLogger;
+  debug?: boolean;
+  maxRegenerations?: number;
+  autoCloseDelay?: number;
+  pollingUrl?: string;
+  pollingFallbackAfter?: number;
+  currency?: string;
+  locale?: string;
+  messages?: Partial<ZenobiaMessages>;
+  closeOnEscape?: boolean;
+  closeOnOverlayClick?: boolean;
+  theme?: ZenobiaTheme;
+  shadow?: boolean; // Render inside a shadow root (default true)
   target: string | HTMLElement;
 }
 
@@ -33,40 +83,133 @@ function injectZenobiaStyles() {
   }
 }
 
-function initZenobiaPayModal(opts: InitModalOpts) {
+function initZenobiaPayModal(
+  opts: InitModalOpts
+): ZenobiaPayInstance<InitModalOpts> | undefined {
   const targetEl =
     typeof opts.target === "string"
       ? document.querySelector(opts.target)
       : opts.target;
 
   if (!targetEl) {
-    console.error("[zenobia-pay-modal] target element not found:", opts.target);
+    const error = new ZenobiaValidationError(
+      "invalid_target",
+      "target",
+      withHint(
+        "Target element not found",
+        `Check that ${JSON.stringify(
+          String(opts.target)
+        )} matches an element when init runs`,
+        opts.debug
+      )
+    );
+    resolveLogger(opts).error(error.message);
+    opts.onError?.(error);
     return;
   }
 
-  injectZenobiaStyles();
+  // Surface option mistakes at init; the session reports them to onError
+  // once the payment starts
+  validateOptions(opts).forEach((problem) =>
+    resolveLogger(opts).warn(problem.message)
+  );
+
+  const shadow = opts.shadow ?? true;
+  if (!shadow) {
+    injectZenobiaStyles();
+  }
 
-  render(
+  // Options live in a store so update() and open()/close() reach the modal
+  const [state, setState] = createStore<InitModalOpts>({ ...opts });
+  const events = createEmitter<ZenobiaInstanceEvents>(resolveLogger(opts));
+  const mountRoot = createMountRoot(targetEl, shadow);
+  let currentStatus: TransferStatus | null = null;
+
+  const open = () => {
+    if (state.isOpen) return;
+    currentStatus = null;
+    setState("isOpen", true);
+    events.emit("open", undefined);
+  };
+
+  const close = () => {
+    if (!state.isOpen) return;
+    setState("isOpen", false);
+    state.onClose?.();
+    events.emit("close", undefined);
+  };
+
+  const dispose = render(
     () => (
       <ZenobiaPaymentModal
-        isOpen={opts.isOpen}
-        onClose={opts.onClose}
-        amount={opts.amount}
-        discountAmount={opts.discountAmount}
-        qrCodeSize={opts.qrCodeSize}
-        isTest={opts.isTest}
-        url={opts.url}
-        metadata={opts.metadata}
-        transferRequest={opts.transferRequest}
-        hideQrOnMobile={opts.hideQrOnMobile}
-        showCashback={opts.showCashback}
-        onSuccess={opts.onSuccess}
-        onError={opts.onError}
-        onStatusChange={opts.onStatusChange}
+        isOpen={state.isOpen}
+        onClose={close}
+        amount={state.amount}
+        discountAmount={state.discountAmount}
+        qrCodeSize={state.qrCodeSize}
+        isTest={state.isTest}
+        url={state.url}
+        createTransferOptions={state.createTransferOptions}
+        createTransfer={state.createTransfer}
+        metadata={state.metadata}
+        transferRequest={state.transferRequest}
+        hideQrOnMobile={state.hideQrOnMobile}
+        showCashback={state.showCashback}
+        onSuccess={(response, status) => {
+          state.onSuccess?.(response, status);
+          events.emit("success", { response, status });
+        }}
+        onError={(error) => {
+          state.onError?.(error);
+          events.emit("error", error);
+        }}
+        onStatusChange={(status) => {
+          currentStatus = status;
+          state.onStatusChange?.(status);
+          events.emit("statuschange", status);
+        }}
+        onExpire={(response) => {
+          state.onExpire?.(response);
+          events.emit("expire", response);
+        }}
+        onEvent={state.onEvent}
+        analytics={state.analytics}
+        onAbandon={state.onAbandon}
+        listenAfterClose={state.listenAfterClose}
+        confirmCloseWhenScanned={state.confirmCloseWhenScanned}
+        persistTransfer={state.persistTransfer}
+        reuseTransfer={state.reuseTransfer}
+        logger={state.logger}
+        debug={state.debug}
+        maxRegenerations={state.maxRegenerations}
+        autoCloseDelay={state.autoCloseDelay}
+        pollingUrl={state.pollingUrl}
+        pollingFallbackAfter={state.pollingFallbackAfter}
+        currency={state.currency}
+        locale={state.locale}
+        messages={state.messages}
+        closeOnEscape={state.closeOnEscape}
+        closeOnOverlayClick={state.closeOnOverlayClick}
+        theme={state.theme}
       />
     ),
-    targetEl
+    mountRoot
   );
+
+  return {
+    open,
+    close,
+    update: (next) => setState(next),
+    destroy: () => {
+      dispose();
+      events.clear();
+      if (mountRoot instanceof ShadowRoot) {
+        mountRoot.host.remove();
+      }
+    },
+    getStatus: () => currentStatus,
+    on: events.on,
+  };
 }
 
-(window as any).ZenobiaPayModal = { init: initZenobiaPayModal };
+(window as any).ZenobiaPayModal = { init: initZenobiaPayModal, createLogger };
@@ -0,0 +1,61 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface RecordedRequest {
+  url: URL;
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+  at: number; // performance.now() when the request arrived
+}
+
+export interface StatusServer {
+  url: string; // Base URL, without a trailing slash
+  requests: RecordedRequest[];
+  respond: (status: number, body: unknown) => void; // Answer every later request with this
+  respondOnce: (status: number, body: unknown) => void; // Answer the next request with this, queued
+  close: () => Promise<void>;
+}
+
+// Local stand-in for a merchant's create-transfer or status endpoint
+export async function startStatusServer(): Promise<StatusServer> {
+  const requests: RecordedRequest[] = [];
+  let reply = { status: 200, body: { status: "PENDING" } as unknown };
+  const queued: (typeof reply)[] = [];
+
+  const server = createServer((req, res) => {
+    const at = performance.now();
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({
+        url: new URL(req.url ?? "/", "http://localhost"),
+        method: req.method ?? "GET",
+        headers: req.headers,
+        body,
+        at,
+      });
+      const { status, body: replyBody } = queued.shift() ?? reply;
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(replyBody));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    respond: (status, body) => {
+      reply = { status, body };
+    },
+    respondOnce: (status, body) => {
+      queued.push({ status, body });
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from "vite";
+import solidPlugin from "vite-plugin-solid";
+
+export default defineConfig({
+  plugins: [solidPlugin()],
+  build: {
+    outDir: "dist/zenobia-element",
+    lib: {
+      entry: "./src/element-bundle.tsx",
+      name: "ZenobiaPayElement",
+      fileName: () => "zenobia-pay-element.js",
+      formats: ["iife"],
+    },
+    rollupOptions: {
+      external: [],
+    },
+  },
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+import solidPlugin from "vite-plugin-solid";
+export default defineConfig({
+  plugins: [solidPlugin()],
+  test: {
+    environment: "jsdom",
+    include: ["src/**/*.test.ts"],
+  },
+});